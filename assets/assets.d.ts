@@ -8,6 +8,12 @@ declare module "*.txt.css" {
     export default value
 }
 
+// typescript modules bundled into a script for the website, see esbuild.config.mjs
+declare module "*?script" {
+    const value: string
+    export default value
+}
+
 declare module "*.txt" {
     const value: string
     export default value
@@ -17,6 +17,8 @@ if( 'function' === typeof importScripts)
     let nodeCount = 0;
     let radii = [];
     let labels = [];
+    let nodeTypes = [];
+    let nodeColors = []; // the color of the color group of each node, or -1
 	let labelFade = [];
 	let labelWidths = [];
 	let pixiLabels = [];
@@ -31,7 +33,9 @@ if( 'function' === typeof importScripts)
         node: 0xCCCCCC,
         outline: 0xAAAAAA,
         text: 0xFFFFFF,
-        accent: 0x4023AA
+        accent: 0x4023AA,
+        tag: 0x2BB673,
+        attachment: 0xE6C34A,
     }
 
     let hoveredNode = -1;
@@ -93,6 +97,14 @@ if( 'function' === typeof importScripts)
         return radius / cameraScaleRoot;
     }
 
+    function getNodeColor(index)
+    {
+        if (nodeColors[index] != undefined && nodeColors[index] != -1) return nodeColors[index];
+        if (nodeTypes[index] == "tag") return colors.tag;
+        if (nodeTypes[index] == "attachment") return colors.attachment;
+        return colors.node;
+    }
+
     function getPosition(index)
     {
         return {x: positions[index * 2], y: positions[index * 2 + 1]};
@@ -246,7 +258,7 @@ if( 'function' === typeof importScripts)
         }
 
         let opacity = 1 - (hoverFade * 0.5);
-        graphics.beginFill(mixColors(colors.node, colors.background, hoverFade * 50), opacity);
+        let fillColor = undefined;
         graphics.lineStyle(0, 0xffffff);
         for (let i = 0; i < nodeCount; i++)
         {
@@ -268,6 +280,14 @@ if( 'function' === typeof importScripts)
 
             if (hoveredNode == i || (lastHoveredNode == i && hoverFade != 0) || (hoveredNode != -1 && attachedToGrabbed.includes(i))) continue;
 
+            // nodes are drawn in the color of their type or color group
+            let nodeColor = getNodeColor(i);
+            if (nodeColor != fillColor)
+            {
+                graphics.beginFill(mixColors(nodeColor, colors.background, hoverFade * 50), opacity);
+                fillColor = nodeColor;
+            }
+
             let pos = vecToScreenSpace(getPosition(i));
             graphics.drawCircle(pos.x, pos.y, screenRadius);
         }
@@ -332,6 +352,39 @@ if( 'function' === typeof importScripts)
         }
     }
 
+    function setGraph(data)
+    {
+        linkCount = data.linkCount;
+        linkSources = data.linkSources;
+        linkTargets = data.linkTargets;
+        nodeCount = data.nodeCount;
+        radii = data.radii;
+        labels = data.labels;
+        nodeTypes = data.nodeTypes ?? [];
+        nodeColors = data.nodeColors ?? [];
+
+        hoveredNode = -1;
+        lastHoveredNode = -1;
+        grabbedNode = -1;
+        activeNode = -1;
+        attachedToGrabbed = [];
+        hoverFade = 0;
+
+        for (let label of pixiLabels) label.destroy();
+        pixiLabels = [];
+        labelWidths = [];
+        labelFade = [];
+
+        for (let i = 0; i < nodeCount; i++)
+        {
+            let label = new PIXI.Text(labels[i], {fontFamily : 'Arial', fontSize: 12, fontWeight: "normal", fill : invertColor(colors.background, true), align : 'center', anchor: 0.5});
+            pixiLabels.push(label);
+            labelWidths.push(label.width);
+            labelFade.push(0);
+            app.stage.addChild(label);
+        }
+    }
+
     function onMessage(event)
     {
         if(event.data.type == "draw")
@@ -373,15 +426,14 @@ if( 'function' === typeof importScripts)
 				label.style.fill = invertColor(colors.background, true);
 			}
         }
+        else if(event.data.type == "set_graph")
+        {
+            // the local graph of another page, or switching between the local and the global graph
+            setGraph(event.data);
+        }
         else if(event.data.type == "init")
         {
             // Extract data from message
-            linkCount = event.data.linkCount;
-            linkSources = event.data.linkSources;
-            linkTargets = event.data.linkTargets;
-            nodeCount = event.data.nodeCount;
-            radii = event.data.radii;
-            labels = event.data.labels;
             linkLength = event.data.linkLength;
             edgePruning = event.data.edgePruning;
 
@@ -391,16 +443,7 @@ if( 'function' === typeof importScripts)
             app.stage.addChild(container);
             container.addChild(graphics);
 
-            pixiLabels = [];
-			for (let i = 0; i < nodeCount; i++)
-			{
-				let label = new PIXI.Text(labels[i], {fontFamily : 'Arial', fontSize: 12, fontWeight: "normal", fill : invertColor(colors.background, true), align : 'center', anchor: 0.5});
-				pixiLabels.push(label);
-				labelWidths.push(label.width);
-				labelFade.push(0);
-            	app.stage.addChild(label);
-			}
-
+            setGraph(event.data);
         }
         else
         {
@@ -13,6 +13,11 @@ let averageFPS = targetFPS * 2;
 let pixiApp = undefined;
 let graphRenderer = undefined;
 
+let visibleGraph = undefined; // the whole graph, or the local graph of the active node
+let activeGraphNode = -1; // the node of the current page in graphData
+let graphNeighbors = undefined; // the nodes linked to each node of graphData, in both directions
+let showLocalGraph = false;
+
 class GraphAssembly
 {
     static nodeCount = 0;
@@ -33,7 +38,7 @@ class GraphAssembly
     static minRadius = 0;
 
     /**  
-     * @param {{graphOptions: {attractionForce: number, linkLength: number, repulsionForce: number, centralForce: number, edgePruning: number, minNodeRadius: number, maxNodeRadius: number}, nodeCount: number, linkCount:number, radii: number[], labels: string[], paths: string[], linkSources: number[], linkTargets: number[], linkCounts: number[]}} graphData
+     * @param {{graphOptions: {attractionForce: number, linkLength: number, repulsionForce: number, centralForce: number, edgePruning: number, minNodeRadius: number, maxNodeRadius: number, localDepth: number, startLocal: boolean}, nodeCount: number, linkCount:number, radii: number[], labels: string[], paths: string[], linkSources: number[], linkTargets: number[], nodeTypes: string[], nodeGroups: number[], colorGroups: {query: string, color: number}[], positions: number[] | undefined, nodes: number[], center: number}} graphData
     */
     static init(graphData)
     {
@@ -57,7 +62,8 @@ class GraphAssembly
         GraphAssembly.averageRadius = GraphAssembly.radii.reduce((a, b) => a + b) / GraphAssembly.radii.length;
         GraphAssembly.minRadius = GraphAssembly.radii.reduce((a, b) => Math.min(a, b));
 
-        positions = this.loadState();
+        // only the layout of the whole graph is kept between pages
+        positions = this.loadState(graphData.center == -1, graphData.positions);
 
         // copy the data to the heap
         Module.HEAP32.set(new Int32Array(positions.buffer), GraphAssembly.#positionsPtr / positions.BYTES_PER_ELEMENT);
@@ -99,14 +105,20 @@ class GraphAssembly
     }
 
     /**
+     * @param {boolean} useSaved
+     * @param {number[] | undefined} layout The positions computed at export time, used if there are no saved positions
      * @returns {Float32Array}
      * */
-    static loadState()
+    static loadState(useSaved = true, layout = undefined)
     {
-        let positionsLoad = localStorage.getItem("positions");
+        let positionsLoad = useSaved ? localStorage.getItem("positions") : null;
         let positions = null;
         if(positionsLoad) positions = new Float32Array(Object.values(JSON.parse(positionsLoad)));
-        if (!positions || !positionsLoad || positions.length != GraphAssembly.nodeCount * 2)
+        if ((!positions || positions.length != GraphAssembly.nodeCount * 2) && layout?.length == GraphAssembly.nodeCount * 2)
+        {
+            positions = new Float32Array(layout);
+        }
+        else if (!positions || !positionsLoad || positions.length != GraphAssembly.nodeCount * 2)
         {
             positions = new Float32Array(GraphAssembly.nodeCount * 2);
             let spawnRadius = (GraphAssembly.averageRadius * Math.sqrt(GraphAssembly.nodeCount)) * 2;
@@ -123,9 +135,9 @@ class GraphAssembly
 		let maxX = -Infinity;
 		let minY = Infinity;
 		let maxY = -Infinity;
-		for (let i = 0; i < GraphAssembly.nodeCount-1; i+=2)
+		for (let i = 0; i < GraphAssembly.nodeCount; i++)
 		{
-			let pos = { x: positions[i], y: positions[i + 1] };
+			let pos = { x: positions[i * 2], y: positions[i * 2 + 1] };
 			minX = Math.min(minX, pos.x);
 			maxX = Math.max(maxX, pos.x);
 			minY = Math.min(minY, pos.y);
@@ -252,6 +264,8 @@ class GraphRenderWorker
             outline: 0x000000,
             text: 0x000000,
             accent: 0x000000,
+            tag: 0x000000,
+            attachment: 0x000000,
         }
         this.#width = 0;
         this.#height = 0;
@@ -284,13 +298,38 @@ class GraphRenderWorker
             linkTargets: GraphAssembly.linkTargets,
             nodeCount: GraphAssembly.nodeCount,
             radii: GraphAssembly.radii,
-            labels: graphData.labels,
+            labels: visibleGraph.labels,
+            nodeTypes: visibleGraph.nodeTypes,
+            nodeColors: getNodeColors(visibleGraph),
             linkLength: graphData.graphOptions.linkLength,
             edgePruning: graphData.graphOptions.edgePruning,
             options: { width: width, height: height, view: this.view },
         }, [this.view]);
     }
 
+    /**
+     * Replace the nodes and links drawn by the worker with the ones in GraphAssembly.
+     */
+    setGraph()
+    {
+        this.worker.postMessage(
+        {
+            type: 'set_graph',
+            linkCount: GraphAssembly.linkCount,
+            linkSources: GraphAssembly.linkSources,
+            linkTargets: GraphAssembly.linkTargets,
+            nodeCount: GraphAssembly.nodeCount,
+            radii: GraphAssembly.radii,
+            labels: visibleGraph.labels,
+            nodeTypes: visibleGraph.nodeTypes,
+            nodeColors: getNodeColors(visibleGraph),
+        });
+
+        this.#hoveredNode = -1;
+        this.#grabbedNode = -1;
+        this.fitToRect(startingCameraRect);
+    }
+
 	fitToRect(rect) // {minX, minY, maxX, maxY}
 	{
 		let min = {x: rect.minX, y: rect.minY};
@@ -354,6 +393,8 @@ class GraphRenderWorker
             outline: this.sampleColor('--graph-line').rgb,
             text: this.sampleColor('--graph-text').rgb,
             accent: this.sampleColor('--interactive-accent').rgb,
+            tag: this.sampleColor('--graph-node-tag').rgb,
+            attachment: this.sampleColor('--graph-node-attachment').rgb,
         };
     }
 
@@ -488,7 +529,7 @@ class GraphRenderWorker
     }
 
     /**
-     * @param {{ background: number; link: number; node: number; outline: number; text: number; accent: number; }} colors
+     * @param {{ background: number; link: number; node: number; outline: number; text: number; accent: number; tag: number; attachment: number; }} colors
      */
     set colors(colors)
     {
@@ -590,7 +631,17 @@ async function initializeGraphView()
 	pixiApp = new PIXI.Application();
 
     console.log("Module Ready");
-    GraphAssembly.init(graphData); // graphData is a global variable set in another script
+
+    // graphData is a global variable set in another script
+    let storedLocal = localStorage.getItem("graph-local");
+    showLocalGraph = storedLocal != null ? storedLocal == "true" : graphData.graphOptions.startLocal;
+    document.querySelector(".graph-local-toggle")?.classList.toggle("is-active", showLocalGraph);
+
+    // the renderer is created with the graph of the current page
+    let activePath = getDocumentPath(new URL(window.location.href));
+    activeGraphNode = graphData.paths.findIndex((path) => path.endsWith(activePath));
+    visibleGraph = getVisibleGraph();
+    GraphAssembly.init(visibleGraph);
 
     graphRenderer = new GraphRenderWorker();
     window.graphRenderer = graphRenderer;
@@ -632,6 +683,136 @@ async function initializeGraphView()
     }, 1000);
 }
 
+/**
+ * Get the nodes and links to show: the nodes within the local graph depth of the active node, or every node.
+ * The local graph is filtered out of graphData, with nodes mapping its nodes to their index in graphData.
+ */
+function getVisibleGraph()
+{
+	if (!showLocalGraph || activeGraphNode == -1)
+	{
+		return { ...graphData, nodes: graphData.paths.map((_, i) => i), center: -1 };
+	}
+
+	if (!graphNeighbors)
+	{
+		graphNeighbors = graphData.paths.map(() => []);
+		for (let i = 0; i < graphData.linkCount; i++)
+		{
+			graphNeighbors[graphData.linkSources[i]].push(graphData.linkTargets[i]);
+			graphNeighbors[graphData.linkTargets[i]].push(graphData.linkSources[i]);
+		}
+	}
+
+	// breadth first search from the active node, so nodes are added in order of their distance
+	let depth = graphData.graphOptions.localDepth ?? 1;
+	let distances = new Map([[activeGraphNode, 0]]);
+	let nodes = [activeGraphNode];
+	for (let i = 0; i < nodes.length; i++)
+	{
+		let distance = distances.get(nodes[i]);
+		if (distance >= depth) continue;
+
+		for (let neighbor of graphNeighbors[nodes[i]])
+		{
+			if (distances.has(neighbor)) continue;
+			distances.set(neighbor, distance + 1);
+			nodes.push(neighbor);
+		}
+	}
+
+	let localIndices = new Map(nodes.map((node, i) => [node, i]));
+	let linkSources = [];
+	let linkTargets = [];
+	for (let i = 0; i < graphData.linkCount; i++)
+	{
+		let source = localIndices.get(graphData.linkSources[i]);
+		let target = localIndices.get(graphData.linkTargets[i]);
+		if (source == undefined || target == undefined) continue;
+
+		linkSources.push(source);
+		linkTargets.push(target);
+	}
+
+	return {
+		graphOptions: graphData.graphOptions,
+		nodeCount: nodes.length,
+		linkCount: linkSources.length,
+		radii: nodes.map((node) => graphData.radii[node]),
+		labels: nodes.map((node) => graphData.labels[node]),
+		paths: nodes.map((node) => graphData.paths[node]),
+		nodeTypes: nodes.map((node) => graphData.nodeTypes[node]),
+		nodeGroups: nodes.map((node) => graphData.nodeGroups[node]),
+		colorGroups: graphData.colorGroups,
+		positions: getLocalLayout(nodes),
+		linkSources: linkSources,
+		linkTargets: linkTargets,
+		nodes: nodes,
+		center: activeGraphNode,
+	};
+}
+
+/**
+ * Get the precomputed positions of the nodes of a local graph, moved so its first node is at the center.
+ */
+function getLocalLayout(nodes)
+{
+	let layout = graphData.positions;
+	if (!layout) return undefined;
+
+	let centerX = layout[nodes[0] * 2];
+	let centerY = layout[nodes[0] * 2 + 1];
+	return nodes.flatMap((node) => [layout[node * 2] - centerX, layout[node * 2 + 1] - centerY]);
+}
+
+/**
+ * Get the color of the color group of each node, or -1 for nodes without a group.
+ */
+function getNodeColors(graph)
+{
+	return graph.nodeGroups.map((group) => group == -1 ? -1 : graph.colorGroups[group].color);
+}
+
+/**
+ * Rebuild the simulation and the renderer if the graph to show changed.
+ */
+function updateVisibleGraph()
+{
+	let center = showLocalGraph ? activeGraphNode : -1;
+	if (visibleGraph.center != center)
+	{
+		if (visibleGraph.center == -1) GraphAssembly.saveState(graphRenderer);
+		GraphAssembly.free();
+
+		visibleGraph = getVisibleGraph();
+		GraphAssembly.init(visibleGraph);
+		graphRenderer.setGraph();
+	}
+
+	graphRenderer.activeNode = visibleGraph.nodes.indexOf(activeGraphNode);
+}
+
+/**
+ * Mark the node of the current page, and show its local graph if the local graph is shown.
+ * @param {number} node The index of the node in graphData
+ */
+function setGraphActiveNode(node)
+{
+	activeGraphNode = node;
+	updateVisibleGraph();
+}
+
+/**
+ * Switch between the local graph of the current page and the whole graph. The choice is remembered between pages.
+ */
+function setLocalGraph(local)
+{
+	showLocalGraph = local;
+	localStorage.setItem("graph-local", local.toString());
+	document.querySelector(".graph-local-toggle")?.classList.toggle("is-active", local);
+	updateVisibleGraph();
+}
+
 let firstUpdate = true;
 function updateGraph()
 {
@@ -794,10 +975,10 @@ function initializeGraphEvents()
 
 	async function navigateToNode(nodeIndex)
 	{
-		if (!graphExpanded) GraphAssembly.saveState(graphRenderer);
-		else toggleExpandedGraph();
-		let url = graphData.paths[nodeIndex];
-		if(window.location.pathname.endsWith(graphData.paths[nodeIndex])) return;
+		if (!graphExpanded && visibleGraph.center == -1) GraphAssembly.saveState(graphRenderer);
+		else if (graphExpanded) toggleExpandedGraph();
+		let url = visibleGraph.paths[nodeIndex];
+		if(!url || window.location.pathname.endsWith(url)) return; // tags without a tag page can't be opened
 		await loadDocument(url, true, true);
 	}
 
@@ -992,6 +1173,12 @@ function initializeGraphEvents()
         toggleExpandedGraph();
     });
 
+	document.querySelector(".graph-local-toggle.graph-icon")?.addEventListener("click", event =>
+	{
+		event.stopPropagation();
+		setLocalGraph(!showLocalGraph);
+	});
+
 	graphContainer.addEventListener("wheel", function(e) 
 	{
 		let startingScrollVelocity = 0.09;
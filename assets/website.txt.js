@@ -23,6 +23,7 @@ let searchInput;
 
 let fileTree;
 let outlineTree;
+let backlinksPanel;
 let fileTreeItems;
 let outlineTreeItems;
 
@@ -69,6 +70,7 @@ async function initGlobalObjects()
 
 	fileTree = document.querySelector(".file-tree");
 	outlineTree = document.querySelector(".outline-tree");
+	backlinksPanel = document.querySelector(".backlinks");
 	fileTreeItems = Array.from(document.querySelectorAll(".tree-container.file-tree .tree-item"));
 
 	sidebars = []
@@ -100,6 +102,7 @@ async function initializePage()
 
 	if(!fullyInitialized)
 	{	
+		setupBundledPages();
 		if (window.location.protocol == "file:") initializeForFileProtocol();
 		await initGlobalObjects();
 		initializeDocumentTypes(document);
@@ -150,6 +153,7 @@ function initializePageEvents(setupOnNode)
 	setupCanvas(setupOnNode);
 	setupCodeblocks(setupOnNode);
 	setupLinks(setupOnNode);
+	setupHoverPreviews(setupOnNode);
 	setupScroll(setupOnNode);
 }
 
@@ -182,6 +186,13 @@ window.onload = async function()
 	initializePageEvents(document);
 	setActiveDocument(loadedURL, true, false, false);
 	fullyInitialized = true;
+
+	let route = getBundledRoute();
+	if (route) 
+	{
+		bundledRoute = route;
+		loadDocument(route, false, true);
+	}
 };
 
 window.onpopstate = function(event)
@@ -189,6 +200,9 @@ window.onpopstate = function(event)
 	event.preventDefault();
 	event.stopPropagation();
 
+	// bundled websites are routed by the hash instead
+	if (bundledPages) return;
+
 	if (document.body.classList.contains("floating-sidebars") && (!leftSidebar.collapsed || !rightSidebar.collapsed))
 	{
 		leftSidebar.collapse(true);
@@ -325,6 +339,13 @@ function clamp(value, min, max)
 	return Math.min(Math.max(value, min), max);
 }
 
+/**Gets the translated text of the site with the given id, from the site-strings script*/
+function translate(key, fallback)
+{
+	if (typeof siteStrings != "undefined" && siteStrings[key]) return siteStrings[key];
+	return fallback;
+}
+
 async function delay(ms)
 {
 	return new Promise(resolve => setTimeout(resolve, ms));
@@ -645,7 +666,7 @@ async function loadDocument(url, changeURL, showInTree)
 	await showLoading(true);
 
 	let response;
-	try { response = await fetch(pathname); }
+	try { response = await fetchWebsiteFile(pathname); }
 	catch (error)
 	{
 		window.location.assign(pathname);
@@ -678,6 +699,10 @@ async function loadDocument(url, changeURL, showInTree)
 			// copy the outline tree into the DOM
 			let newOutline = transferDocument.querySelector(".outline-tree");
 			if (outlineTree && newOutline) outlineTree.innerHTML = newOutline.innerHTML;
+
+			// copy the backlinks into the DOM
+			let newBacklinks = transferDocument.querySelector(".backlinks");
+			if (backlinksPanel) backlinksPanel.innerHTML = newBacklinks?.innerHTML ?? "";
 		
 			document.title = transferDocument.title;
 			transferDocument.close();
@@ -692,7 +717,7 @@ async function loadDocument(url, changeURL, showInTree)
 			{
 				let media = document.createElement(embedType);
 				media.controls = true;
-				media.src = url;
+				media.src = getBundledPage(url)?.dataURL ?? url;
 				
 				media.style.maxWidth = "100%";
 				if(embedType == "embed")
@@ -710,6 +735,8 @@ async function loadDocument(url, changeURL, showInTree)
 				if (document.querySelector(".outline-tree")) 
 					document.querySelector(".outline-tree").innerHTML = "";
 
+				if (backlinksPanel) backlinksPanel.innerHTML = "";
+
 				document.title = url.split("/").pop();
 			}
 			else // just download the file
@@ -722,6 +749,7 @@ async function loadDocument(url, changeURL, showInTree)
 		await initializePage();
 		initializePageEvents(documentContainer);
 		initializePageEvents(outlineTree);
+		initializePageEvents(backlinksPanel);
 	}
 	else
 	{
@@ -734,13 +762,20 @@ async function loadDocument(url, changeURL, showInTree)
 	return;
 }
 
-function setActiveDocument(url, showInTree, changeURL, animate = true)
+/**Gets the path of the document at a url relative to the root, without its search and hash, escaped for use in selectors*/
+function getDocumentPath(url)
 {
-	let relativePath = getVaultRelativePath(url.href);
-	let decodedRelativePath = decodeURI(relativePath);
+	let decodedRelativePath = decodeURI(getVaultRelativePath(url.href));
 	let searchlessHeaderlessPath = decodedRelativePath.split("#")[0].split("?")[0].replace("\"", "\\\"").replace("\'", "\\\'");
 	
 	if (searchlessHeaderlessPath == "/" || searchlessHeaderlessPath == "") searchlessHeaderlessPath = "index.html";
+	return searchlessHeaderlessPath;
+}
+
+function setActiveDocument(url, showInTree, changeURL, animate = true)
+{
+	let relativePath = getVaultRelativePath(url.href);
+	let searchlessHeaderlessPath = getDocumentPath(url);
 
 	// switch active file in file tree
 	let oldActiveTreeItem = document.querySelector(".file-tree .tree-item.mod-active");
@@ -759,13 +794,18 @@ function setActiveDocument(url, showInTree, changeURL, animate = true)
 		
 		if(activeNode >= 0) 
 		{
-			window.graphRenderer.activeNode = activeNode;
+			setGraphActiveNode(activeNode);
 		}
 	}
 
 	console.log("Active document: " + changeURL);
 
-	if(changeURL && window.location.protocol != "file:") 
+	if (changeURL && bundledPages)
+	{
+		bundledRoute = relativePath;
+		window.location.hash = "/" + relativePath.replaceAll("#", "%23");
+	}
+	else if(changeURL && window.location.protocol != "file:") 
 	{
 		window.history.pushState({ path: relativePath }, '', relativePath);
 		console.log("Pushed state: " + relativePath);
@@ -780,7 +820,8 @@ function parseURLParams()
 	
 	if (highlightParam) 
 	{
-		searchCurrentDocument(highlightParam);
+		// a heading in the url takes precedence over the first highlight
+		searchCurrentDocument(highlightParam, !hashParam);
 	}
 
 	if (searchParam) 
@@ -827,10 +868,11 @@ function pageNotFound(viewContent)
 	`
 	<div>
 		<center style='position: relative; transform: translateY(20vh); width: 100%; text-align: center;'>
-			<h1 style>Page Not Found</h1>
+			<h1 style></h1>
 		</center>
 	</div>
 	`;
+	viewContent.querySelector("h1").textContent = translate("pageNotFound", "Page Not Found");
 
 	if (document.querySelector(".outline-tree"))
 		document.querySelector(".outline-tree").innerHTML = "";
@@ -840,7 +882,7 @@ function pageNotFound(viewContent)
 	relativeBasePath = newRootPath;
 	document.querySelector("base").href = newRootPath;
 
-	document.title = "Page Not Found";
+	document.title = translate("pageNotFound", "Page Not Found");
 }
 
 function setupRootPath(fromDocument)
@@ -883,6 +925,62 @@ function getVaultRelativePath(absolutePath)
 
 //#endregion
 
+//#region -----------------   Bundled Website   ----------------- 
+
+// when the whole website is exported as one file, the pages are embedded in it and routed by the url hash: "#/folder/note.html"
+let bundledPages = undefined;
+let bundledRoute = undefined;
+
+function setupBundledPages()
+{
+	let dataEl = document.getElementById("bundled-pages");
+	if (!dataEl) return;
+
+	bundledPages = JSON.parse(dataEl.textContent);
+	dataEl.remove();
+
+	// the shell is the entry page, so act as if it was loaded from its own path
+	setupRootPath(document);
+	loadedURL = new URL(bundledPages.entry, absoluteBasePath);
+
+	window.addEventListener("hashchange", function()
+	{
+		let route = getBundledRoute() ?? bundledPages.entry;
+		if (route == bundledRoute) return;
+
+		bundledRoute = route;
+		loadDocument(route, false, true);
+	});
+}
+
+function getBundledRoute()
+{
+	if (!bundledPages || !window.location.hash.startsWith("#/")) return undefined;
+	return decodeURIComponent(window.location.hash.substring(2));
+}
+
+function getBundledPage(url)
+{
+	if (!bundledPages) return undefined;
+
+	let path = decodeURI(getVaultRelativePath(new URL(url, absoluteBasePath).href)).split("#")[0].split("?")[0];
+	return bundledPages.pages[path || bundledPages.entry];
+}
+
+// fetch a file of the website, or read it from the embedded pages if the website is bundled
+async function fetchWebsiteFile(url)
+{
+	if (!bundledPages) return await fetch(url);
+
+	let page = getBundledPage(url);
+	if (!page) return new Response("", { status: 404 });
+	if (page.dataURL) return await fetch(page.dataURL);
+
+	return new Response(page.html, { headers: { "Content-Type": "text/html" } });
+}
+
+//#endregion
+
 //#region -----------------       Headers       ----------------- 
 
 function setupHeaders(setupOnNode)
@@ -2016,13 +2114,13 @@ function setupCodeblocks(setupOnNode)
 		{
 			var code = this.parentElement.querySelector("code").textContent;
 			navigator.clipboard.writeText(code);
-			this.textContent = "Copied!";
+			this.textContent = translate("codeCopied", "Copied!");
 			// set a timeout to change the text back
 			setTimeout(function () 
 			{
 				setupOnNode.querySelectorAll(".copy-code-button").forEach(function (button) 
 				{
-					button.textContent = "Copy";
+					button.textContent = translate("copyCode", "Copy");
 				});
 			}, 2000);
 		});
@@ -2061,6 +2159,119 @@ function setupLinks(setupOnNode)
 
 //#endregion
 
+//#region -----------------   Hover Previews    ----------------- 
+
+let hoverPreview;
+let hoverPreviewCache = {};
+let hoverShowTimeout;
+let hoverHideTimeout;
+
+function setupHoverPreviews(setupOnNode)
+{
+	// previews need to fetch other pages which doesn't work for local files, unless the pages are bundled
+	if (isTouchDevice || (window.location.protocol == "file:" && !bundledPages)) return;
+
+	setupOnNode.querySelectorAll("a.internal-link").forEach(function(link)
+	{
+		link.addEventListener("mouseenter", function()
+		{
+			clearTimeout(hoverShowTimeout);
+			clearTimeout(hoverHideTimeout);
+			hoverShowTimeout = setTimeout(() => showHoverPreview(link), 400);
+		});
+
+		link.addEventListener("mouseleave", function()
+		{
+			clearTimeout(hoverShowTimeout);
+			hoverHideTimeout = setTimeout(hideHoverPreview, 300);
+		});
+
+		link.addEventListener("click", function()
+		{
+			clearTimeout(hoverShowTimeout);
+			hideHoverPreview();
+		});
+	});
+}
+
+async function getHoverPreviewContent(pathname)
+{
+	if (hoverPreviewCache[pathname]) return hoverPreviewCache[pathname];
+
+	let response;
+	try { response = await fetchWebsiteFile(pathname); }
+	catch (error) { return undefined; }
+	if (!response.ok || !response.headers.get("content-type")?.includes("html")) return undefined;
+
+	let previewDocument = new DOMParser().parseFromString(await response.text(), "text/html");
+	let content = previewDocument.querySelector(".document-container > .markdown-preview-view") ?? previewDocument.querySelector(".document-container > .view-content");
+	if (!content) return undefined;
+
+	hoverPreviewCache[pathname] = content.innerHTML;
+	return content.innerHTML;
+}
+
+async function showHoverPreview(link)
+{
+	let href = link.getAttribute("href");
+	if (!href || href.startsWith("#")) return;
+
+	let url = new URL(href, absoluteBasePath);
+	let content = await getHoverPreviewContent(url.pathname);
+	if (!content || !link.matches(":hover")) return;
+
+	if (!hoverPreview)
+	{
+		hoverPreview = document.createElement("div");
+		hoverPreview.classList.add("hover-preview");
+		hoverPreview.addEventListener("mouseenter", () => clearTimeout(hoverHideTimeout));
+		hoverPreview.addEventListener("mouseleave", () => hoverHideTimeout = setTimeout(hideHoverPreview, 300));
+		document.body.appendChild(hoverPreview);
+	}
+
+	hoverPreview.innerHTML = `<div class="markdown-preview-view markdown-rendered">${content}</div>`;
+	hoverPreview.scrollTop = 0;
+
+	// clicking a heading in the preview opens the page at that heading
+	let pagePath = getVaultRelativePath(url.href).split("#")[0].split("?")[0];
+	hoverPreview.querySelectorAll("h1, h2, h3, h4, h5, h6").forEach(function(heading)
+	{
+		if (!heading.id) return;
+		heading.addEventListener("click", function()
+		{
+			hideHoverPreview();
+			loadDocument(pagePath + "#" + heading.id, true, true);
+		});
+	});
+
+	setupLinks(hoverPreview);
+	hoverPreview.querySelectorAll("a").forEach((previewLink) => previewLink.addEventListener("click", hideHoverPreview));
+
+	// place the preview below the link, or above it if there isn't enough space
+	hoverPreview.classList.add("is-visible");
+	let linkRect = link.getBoundingClientRect();
+	let previewRect = hoverPreview.getBoundingClientRect();
+	let left = Math.min(Math.max(linkRect.left, 10), window.innerWidth - previewRect.width - 10);
+	let top = linkRect.bottom + 5;
+	if (top + previewRect.height > window.innerHeight - 10) top = Math.max(linkRect.top - previewRect.height - 5, 10);
+	hoverPreview.style.left = left + "px";
+	hoverPreview.style.top = top + "px";
+
+	// scroll to the linked heading
+	if (url.hash)
+	{
+		let heading = hoverPreview.querySelector(`[id="${CSS.escape(decodeURI(url.hash.substring(1)))}"]`);
+		if (heading) hoverPreview.scrollTop = heading.getBoundingClientRect().top - hoverPreview.getBoundingClientRect().top;
+	}
+}
+
+function hideHoverPreview()
+{
+	hoverPreview?.classList.remove("is-visible");
+}
+
+//#endregion
+
 //#region -----------------      Sidebars       ----------------- 
 
 function setupSidebars()
@@ -2483,18 +2694,43 @@ function setupExcalidraw(setupOnNode)
 //#region -----------------        Search      -----------------
 
 // search box
-let index;
+let index; // the full text index, with only the terms of the shards which have been loaded
+let titleIndex; // the small index of titles, tags and paths, which is loaded with the page
+let searchShards; // the shards of the full text index, see WebsiteIndex.searchPath
+let searchCount = 0;
 let searchResults;
+let searchSections = {}; // page path -> promise of the sections of the page
+let searchProperties = []; // the frontmatter properties which can be filtered by with property:value
+let searchLanguages = []; // the languages of the indexed pages, queries are processed for each of them
+
+const indexFields = ['title', 'path', 'tags', 'headers', 'content'];
+const titleIndexFields = ['title', 'path', 'tags'];
 
 async function setupSearch() 
 {
-	if (isFileProtocol) return;
+	if (isFileProtocol && !bundledPages) return;
 	searchInput = document.querySelector('input[type="search"]');
 	if (!searchInput) return;
 
-	const indexResp = await fetch('lib/search-index.json');
-	const indexJSON = await indexResp.text();
-	index = MiniSearch.loadJSON(indexJSON, { fields: ['title', 'path', 'tags', 'headers'] });
+	if (bundledPages)
+	{
+		// a bundle embeds the whole index
+		if (!bundledPages.searchIndex) return;
+		const indexJS = JSON.parse(bundledPages.searchIndex);
+		searchProperties = Object.keys(indexJS.fieldIds).filter((field) => field.startsWith("property:")).map((field) => field.substring("property:".length));
+		searchLanguages = getSearchLanguages(indexJS.storedFields);
+		index = MiniSearch.loadJS(indexJS, { fields: indexFields, processTerm: processSearchTerm });
+	}
+	else
+	{
+		const titlesResponse = await fetch('lib/search/titles.json');
+		if (!titlesResponse.ok) return;
+		const titles = await titlesResponse.json();
+		searchLanguages = getSearchLanguages(titles.index.storedFields);
+		titleIndex = MiniSearch.loadJS(titles.index, { fields: titleIndexFields, processTerm: processSearchTerm });
+		searchShards = { keys: titles.shards, requests: {}, documents: undefined, terms: [], loadedCount: 0, indexedCount: 0 };
+		searchProperties = titles.properties ?? [];
+	}
 
 	const inputClear = document.querySelector('.search-input-clear-button');
 
@@ -2507,7 +2743,7 @@ async function setupSearch()
 	{
 		const query = event.target.value ?? "";
 
-		if (startsWithAny(query, ["#", "tag:", "title:", "name:", "header:", "H:"]))
+		if (startsWithAny(query, ["#", "tag:", "title:", "name:", "header:", "H:"]) || parsePropertyFilters(query).filters.length > 0)
 		{
 			searchInput.style.color = "var(--text-accent)";
 		}
@@ -2526,9 +2762,12 @@ async function setupSearch()
 async function search(query)
 {
 	searchInput.value = query;
+	const fullQuery = query;
 
 	// parse special query filters
-	let searchFields = ['title', 'content', 'tags', 'headers', 'path'];
+	const propertyFilters = parsePropertyFilters(query);
+	query = propertyFilters.text;
+	let searchFields = ['title', 'content', 'tags', 'headers', 'path', ...searchProperties.map((property) => "property:" + property)];
 	if (query.startsWith("#")) searchFields = ['tags', 'headers'];
 	if (query.startsWith("tag:"))
 	{
@@ -2551,88 +2790,367 @@ async function search(query)
 		searchFields = ['path'];
 	}
 
-	if (query.length >= 1)
+	const searchId = ++searchCount;
+	if (query.length >= 1 || propertyFilters.filters.length > 0)
 	{
-		const results = index.search(query, { prefix: true, fuzzy: 0.3, boost: { title: 4, headers: 3, tags: 2, path: 1 }, fields: searchFields });
-		// search through the file tree and hide documents that don't match the search
-		let showPaths = [];
-		let hintLabels = [];
-		for (let result of results)
+		const searchOptions = { prefix: true, fuzzy: 0.3, boost: { title: 4, headers: 3, tags: 2, path: 1 }, fields: searchFields };
+
+		// every property filter has to match, along with the rest of the query
+		let fullTextQuery = query;
+		if (propertyFilters.filters.length > 0)
+		{
+			const queries = propertyFilters.filters.map((filter) => ({ queries: [filter.value], fields: [filter.field], fuzzy: false, combineWith: 'AND' }));
+			if (query.length >= 1) queries.push({ queries: [query], fields: searchFields, combineWith: 'OR' });
+			fullTextQuery = { queries: queries, combineWith: 'AND' };
+		}
+
+		if (!searchShards)
+		{
+			showSearchResults(index.search(fullTextQuery, searchOptions), query);
+			return;
+		}
+
+		// properties are not in the title index
+		const titleFields = searchFields.filter((field) => titleIndexFields.includes(field));
+		if (titleFields.length > 0 && propertyFilters.filters.length == 0)
+		{
+			showSearchResults(titleIndex.search(query, Object.assign({}, searchOptions, { fields: titleFields })), query);
+			if (titleFields.length == searchFields.length) return;
+		}
+
+		// show the full results once the shards with the terms of the query are loaded, unless another search started in the meantime
+		try
+		{
+			await loadSearchShards(fullQuery);
+		}
+		catch (e)
 		{
-			// only show the most relevant results
-			if (((result.score < results[0].score * 0.33 || showPaths.length > 12) && showPaths.length > 3) || result.score < results[0].score * 0.1) break;
-			showPaths.push(result.path);
+			console.warn("Failed to load the search index", e);
+			return;
+		}
 
-			let hints = [];
-			let breakEarly = false;
-			for (match in result.match)
+		if (searchId != searchCount) return;
+		showSearchResults(index.search(fullTextQuery, searchOptions), query);
+	}
+	else
+	{
+		if (searchResults && searchResults.parentElement) searchResults.parentNode.removeChild(searchResults);
+		clearCurrentDocumentSearch();
+		if (fileTree) clearFileTreeFilter().then(() => sortFileTreeAlphabetically());
+	}
+
+}
+
+/**
+ * Process a term of a query like the exporter processed the terms of the pages, see search-language.js.
+ */
+function processSearchTerm(term)
+{
+	if (term == "") return null;
+	return SearchLanguage.processQueryTerm(term, searchLanguages);
+}
+
+function getSearchLanguages(storedFields)
+{
+	return Array.from(new Set(Object.values(storedFields).map((fields) => fields.lang ?? "none")));
+}
+
+/**
+ * Get the key of the shard which a term is stored in. This has to match WebsiteIndex.getShardKey().
+ */
+function getSearchShardKey(term)
+{
+	const char = term.charAt(0);
+	if (/[a-z0-9]/.test(char)) return char;
+	return "u" + (term.codePointAt(0) >> 8).toString(16);
+}
+
+/**
+ * Load the shards of the full text index which hold the terms of a query, and rebuild the index if any were added.
+ * Fuzzy matches which start with a different character than the query are only found if their shard was loaded by an earlier search.
+ */
+async function loadSearchShards(query)
+{
+	const keys = new Set();
+	for (const token of MiniSearch.getDefault('tokenize')(query))
+	{
+		for (const term of processSearchTerm(token) ?? [])
+		{
+			const key = getSearchShardKey(term);
+			if (searchShards.keys.includes(key)) keys.add(key);
+		}
+	}
+
+	if (!searchShards.documents)
+	{
+		searchShards.documents = fetch('lib/search/documents.json').then((response) => 
+		{
+			if (!response.ok) throw new Error("Could not load the search documents");
+			return response.json();
+		}).catch((error) =>
+		{
+			// forget the failed request, so the next search tries again
+			searchShards.documents = undefined;
+			throw error;
+		});
+	}
+
+	const requests = Array.from(keys).map((key) =>
+	{
+		if (!searchShards.requests[key])
+		{
+			searchShards.requests[key] = fetch(`lib/search/shard-${key}.json`).then(async (response) => 
+			{
+				if (!response.ok) throw new Error("Could not load search shard " + key);
+				searchShards.terms.push(...await response.json());
+				searchShards.loadedCount++;
+			}).catch((error) =>
+			{
+				delete searchShards.requests[key];
+				throw error;
+			});
+		}
+
+		return searchShards.requests[key];
+	});
+
+	const documents = await searchShards.documents;
+	await Promise.all(requests);
+
+	if (index && searchShards.indexedCount == searchShards.loadedCount) return;
+	searchShards.indexedCount = searchShards.loadedCount;
+	index = MiniSearch.loadJS(Object.assign({}, documents, { index: searchShards.terms }), { fields: indexFields, processTerm: processSearchTerm });
+}
+
+function showSearchResults(results, query)
+{
+	// search through the file tree and hide documents that don't match the search
+	let showPaths = [];
+	let hintLabels = [];
+	for (let result of results)
+	{
+		// only show the most relevant results
+		if (((result.score < results[0].score * 0.33 || showPaths.length > 12) && showPaths.length > 3) || result.score < results[0].score * 0.1) break;
+		showPaths.push(result.path);
+
+		let hints = [];
+		let breakEarly = false;
+		for (match in result.match)
+		{
+			if (result.match[match].includes("headers") && result.headers)
 			{
-				if (result.match[match].includes("headers"))
+				for (let header of result.headers)
 				{
-					for (let header of result.headers)
+					if (header.toLowerCase().includes(match.toLowerCase()))
 					{
-						if (header.toLowerCase().includes(match.toLowerCase()))
+						hints.push(header);
+						if (query.toLowerCase() != match.toLowerCase()) 
 						{
-							hints.push(header);
-							if (query.toLowerCase() != match.toLowerCase()) 
-							{
-								breakEarly = true;
-								break;
-							}
+							breakEarly = true;
+							break;
 						}
 					}
 				}
-
-				if (breakEarly) break;
 			}
 
-			hintLabels.push(hints);
+			if (breakEarly) break;
 		}
 
-		let fileTree = document.querySelector(".file-tree");
-		if (fileTree)
-		{
-			// filter the file tree and sort it by the order of the search results
-			filterFileTree(showPaths, hintLabels, query).then(() =>
-			sortFileTreeDocuments((a, b) => 
-			{
-				if (!a || !b) return 0;
-				let aPath = getVaultRelativePath(a.firstChild.href);
-				let bPath = getVaultRelativePath(b.firstChild.href);
-				return showPaths.findIndex((path) => aPath.startsWith(path)) - showPaths.findIndex((path) => bPath.startsWith(path));
-			}));
-		}
-		else
+		hintLabels.push(hints);
+	}
+
+	let fileTree = document.querySelector(".file-tree");
+	if (fileTree)
+	{
+		// filter the file tree and sort it by the order of the search results
+		filterFileTree(showPaths, hintLabels, query).then(() =>
+		sortFileTreeDocuments((a, b) => 
 		{
-			const list = document.createElement('div');
-			results.slice(0, 10).forEach(result => {
+			if (!a || !b) return 0;
+			let aPath = getVaultRelativePath(a.firstChild.href);
+			let bPath = getVaultRelativePath(b.firstChild.href);
+			return showPaths.findIndex((path) => aPath.startsWith(path)) - showPaths.findIndex((path) => bPath.startsWith(path));
+		}));
+	}
 
-				const item = document.createElement('div');
-				item.classList.add('search-result');
+	// list the best results with the section of the page they match in
+	const list = document.createElement('div');
+	results.slice(0, 10).forEach(result => {
 
-				const link = document.createElement('a');
-				link.classList.add('tree-link');
+		const item = document.createElement('div');
+		item.classList.add('search-result');
 
-				const searchURL = result.path + '?mark=' + encodeURIComponent(query);
-				link.setAttribute('href', searchURL);
-				link.appendChild(document.createTextNode(result.title));
-				item.appendChild(link);
-				list.append(item);
-			});
+		const link = document.createElement('a');
+		link.classList.add('tree-link');
+
+		const searchURL = result.path + '?mark=' + encodeURIComponent(query);
+		link.setAttribute('href', searchURL);
+		link.appendChild(document.createTextNode(result.title));
+		item.appendChild(link);
+		list.append(item);
 
-			searchResults.replaceChildren(list);
-			searchInput.parentElement.after(searchResults);
-			initializePageEvents(searchResults);
+		getSearchSections(result.path).then((sections) => addSearchResultSection(item, sections, result.terms, searchURL));
+	});
+
+	searchResults.replaceChildren(list);
+	searchInput.parentElement.after(searchResults);
+	initializePageEvents(searchResults);
+}
+
+/**
+ * Get the sections of a page, which are saved by WebsiteIndex.indexPage() next to the search index.
+ */
+function getSearchSections(path)
+{
+	if (!searchSections[path])
+	{
+		const sectionsURL = "lib/search/sections/" + path.replace(/\.html$/, "") + ".json";
+		searchSections[path] = fetchWebsiteFile(sectionsURL)
+			.then((response) => response.ok ? response.json() : [])
+			.catch(() => []);
+	}
+
+	return searchSections[path];
+}
+
+/**
+ * Show the heading and a snippet of the section which contains the most terms of a result, linking to the heading.
+ */
+function addSearchResultSection(item, sections, terms, searchURL)
+{
+	let section = undefined;
+	let sectionTermCount = 0;
+	for (const candidate of sections)
+	{
+		const text = getFoldedText(candidate.heading + " " + candidate.text).folded;
+		const termCount = terms.filter((term) => text.includes(term)).length;
+		if (termCount > sectionTermCount)
+		{
+			section = candidate;
+			sectionTermCount = termCount;
 		}
+	}
 
+	if (!section) return;
+
+	const sectionContainer = document.createElement('div');
+	sectionContainer.classList.add('search-result-section');
+
+	const sectionLink = document.createElement('a');
+	sectionLink.classList.add('internal-link');
+	sectionLink.setAttribute('href', searchURL + (section.id ? '#' + section.id : ''));
+	sectionContainer.appendChild(sectionLink);
+
+	if (section.heading)
+	{
+		const headingEl = document.createElement('div');
+		headingEl.classList.add('search-result-heading');
+		appendHighlightedText(headingEl, section.heading, terms);
+		sectionLink.appendChild(headingEl);
 	}
-	else
+
+	const snippet = getSearchSnippet(section.text, terms);
+	if (snippet)
 	{
-		if (searchResults && searchResults.parentElement) searchResults.parentNode.removeChild(searchResults);
-		clearCurrentDocumentSearch();
-		if (fileTree) clearFileTreeFilter().then(() => sortFileTreeAlphabetically());
+		const snippetEl = document.createElement('div');
+		snippetEl.classList.add('search-result-snippet');
+		appendHighlightedText(snippetEl, snippet, terms);
+		sectionLink.appendChild(snippetEl);
 	}
 
+	item.appendChild(sectionContainer);
+	setupLinks(sectionContainer);
+}
+
+/**
+ * Get the part of a text around the first match of the terms, cut at word boundaries.
+ */
+function getSearchSnippet(text, terms, length = 160)
+{
+	const { folded, offsets } = getFoldedText(text);
+	let matchIndex = -1;
+	for (const term of terms)
+	{
+		const index = folded.indexOf(term);
+		if (index != -1 && (matchIndex == -1 || offsets[index] < matchIndex)) matchIndex = offsets[index];
+	}
+
+	let start = Math.max(0, matchIndex - length / 3);
+	if (start > 0) start = text.indexOf(" ", start) + 1;
+	let end = Math.min(text.length, start + length);
+	if (end < text.length) end = Math.max(text.lastIndexOf(" ", end), start + 1);
+
+	return (start > 0 ? "… " : "") + text.substring(start, end).trim() + (end < text.length ? " …" : "");
+}
+
+/**
+ * Lowercase a text and remove its accents like the search index does, keeping the position in the text of each folded character.
+ * The terms of search results are stemmed, so they are found as the start of the words in the folded text.
+ */
+function getFoldedText(text)
+{
+	let folded = "";
+	const offsets = [];
+	for (let i = 0; i < text.length; i++)
+	{
+		const char = SearchLanguage.fold(text[i].toLowerCase());
+		for (let j = 0; j < char.length; j++) offsets.push(i);
+		folded += char;
+	}
+
+	offsets.push(text.length);
+	return { folded: folded, offsets: offsets };
+}
+
+function appendHighlightedText(element, text, terms)
+{
+	const { folded, offsets } = getFoldedText(text);
+	const sortedTerms = terms.filter((term) => term != "").sort((a, b) => b.length - a.length);
+
+	let position = 0;
+	let i = 0;
+	while (i < folded.length)
+	{
+		const term = sortedTerms.find((term) => folded.startsWith(term, i));
+		if (!term)
+		{
+			i++;
+			continue;
+		}
+
+		const start = offsets[i];
+		const end = offsets[i + term.length];
+		if (start > position) element.appendChild(document.createTextNode(text.substring(position, start)));
+
+		const mark = document.createElement('mark');
+		mark.classList.add('search-result-match');
+		mark.textContent = text.substring(start, end);
+		element.appendChild(mark);
+
+		position = end;
+		i += term.length;
+	}
+
+	if (position < text.length) element.appendChild(document.createTextNode(text.substring(position)));
+}
+
+/**
+ * Take the property:value filters of the searchable properties out of a query. Values with spaces can be quoted: owner:"Jane Doe"
+ */
+function parsePropertyFilters(query)
+{
+	const filters = [];
+	const text = query.replace(/(^|\s)([^\s:"]+):("[^"]*"?|\S+)/g, (match, space, name, value) =>
+	{
+		const property = searchProperties.find((property) => property.toLowerCase() == name.toLowerCase());
+		if (!property) return match;
+
+		value = value.replace(/^"|"$/g, "").trim();
+		if (value) filters.push({ field: "property:" + property, value: value });
+		return space;
+	});
+
+	return { text: text.trim(), filters: filters };
 }
 
 function startsWithAny(string, prefixes)
@@ -2645,7 +3163,7 @@ function startsWithAny(string, prefixes)
 	return false;
 }
 
-async function searchCurrentDocument(query)
+async function searchCurrentDocument(query, scrollToMark = true)
 {
 	clearCurrentDocumentSearch();
 	const textNodes = getTextNodes(document.querySelector(".markdown-preview-sizer") ?? documentContainer);
@@ -2677,6 +3195,7 @@ async function searchCurrentDocument(query)
 	});
 
 	let firstMark = document.querySelector(".search-mark");
+	if (!scrollToMark) return;
 
 	// wait for page to fade in
 	setTimeout(() => 
@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from 'builtin-modules'
+import path from 'path';
 
 const banner =
 `/*
@@ -11,6 +12,34 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === 'production');
 
+// "path/to/module?script" imports a typescript module bundled into a script for the website, which puts the module's exports on the window
+const scriptPlugin = {
+	name: 'script',
+	setup(build) {
+		build.onResolve({ filter: /\?script$/ }, (args) => ({ path: path.resolve(args.path.replace(/\?script$/, '')), namespace: 'script' }));
+		build.onLoad({ filter: /.*/, namespace: 'script' }, async (args) => {
+			const result = await esbuild.build({
+				stdin: {
+					contents: `import * as exports from ${JSON.stringify(args.path)}; Object.assign(window, exports);`,
+					resolveDir: process.cwd(),
+					loader: 'ts',
+				},
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: 'iife',
+				target: 'es2018',
+			});
+
+			return {
+				contents: result.outputFiles[0].text,
+				loader: 'text',
+				watchFiles: Object.keys(result.metafile.inputs).filter((input) => input != '<stdin>').map((input) => path.resolve(input)),
+			};
+		});
+	},
+};
+
 esbuild.build({
 	loader: {
 		'.txt.js': 'text',
@@ -22,6 +51,7 @@ esbuild.build({
 		js: banner,
 	},
 	entryPoints: ['./scripts/main.ts'],
+	plugins: [scriptPlugin],
 	bundle: true,
 	external: [
 		'obsidian',
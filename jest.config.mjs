@@ -0,0 +1,11 @@
+export default {
+	testEnvironment: "node",
+	roots: ["<rootDir>/tests"],
+	setupFiles: ["<rootDir>/tests/setup.ts"],
+	transform: { "^.+\\.ts$": "ts-jest" },
+	moduleNameMapper:
+	{
+		"^scripts/(.*)$": "<rootDir>/scripts/$1",
+		"^(obsidian|electron)$": "<rootDir>/tests/mocks/$1.ts",
+	},
+};
@@ -1,4 +1,4 @@
-import { ExportPreset, Settings } from "./settings/settings";
+import { ExportPreset, ExportTarget, LinkHandling, Settings } from "./settings/settings";
 
 /**
  * General options for the MarkdownRendererAPI
@@ -31,6 +31,15 @@ export class MarkdownRendererAPIOptions
 	displayProgress?: boolean = true;
 }
 
+/**
+ * Nodes matching the query of a color group are drawn in its color. The first matching group is used.
+ */
+export interface GraphColorGroup
+{
+	query: string; // like "path:Projects", "tag:#active" or "file:readme"
+	color: number; // rgb as a number, like 0xe0a030
+}
+
 export class GraphViewOptions
 {
 	attractionForce = 1;
@@ -40,6 +49,33 @@ export class GraphViewOptions
 	edgePruning = 100;
 	minNodeRadius = 3;
 	maxNodeRadius = 7;
+	localDepth = Settings.graphLocalDepth; // how many links away from the page a node of the local graph can be
+	startLocal = Settings.graphStartLocal; // show the local graph of each page until the reader switches to the global graph
+	showTags = Settings.graphShowTags; // add a node for each tag, linked to the pages using it
+	showAttachments = Settings.graphShowAttachments; // add a node for each exported attachment, linked to the pages embedding it
+	precomputeLayout = Settings.graphPrecomputeLayout; // lay out the graph during the export, so it opens settled
+	colorGroups: GraphColorGroup[] | undefined = GraphViewOptions.parseColorGroups(Settings.graphColorGroups); // undefined uses the color groups of the vault's graph view
+
+	/**
+	 * Parse color groups written as a query followed by a color, separated by commas. (ex. tag:#project #e0a030, path:Daily #5080ff)
+	 * Returns undefined for an empty text, and leaves out groups which can't be parsed.
+	 */
+	public static parseColorGroups(text: string): GraphColorGroup[] | undefined
+	{
+		if (text.trim() == "") return undefined;
+
+		let groups: GraphColorGroup[] = [];
+		for (let group of text.split(","))
+		{
+			let match = /^(.*\S)\s+#([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(group.trim());
+			if (!match) continue;
+
+			let hex = match[2].length == 3 ? match[2].replace(/./g, "$&$&") : match[2];
+			groups.push({ query: match[1], color: parseInt(hex, 16) });
+		}
+
+		return groups;
+	}
 }
 
 /**
@@ -50,7 +86,7 @@ export class MarkdownWebpageRendererAPIOptions extends MarkdownRendererAPIOption
 	/**
 	 * Add sidebars to either side of the page.
 	 */
-	addSidebars?: boolean = Settings.exportPreset != ExportPreset.RawDocuments;
+	addSidebars?: boolean = Settings.exportPreset != ExportPreset.RawDocuments && Settings.exportPreset != ExportPreset.ContentAPI;
 
 	/**
 	 * Add a theme toggle to the left sidebar.
@@ -67,11 +103,26 @@ export class MarkdownWebpageRendererAPIOptions extends MarkdownRendererAPIOption
 	 */
 	addOutline?: boolean = Settings.addOutline;
 
+	/**
+	 * Add a list of the notes linking to this page to the right sidebar.
+	 */
+	addBacklinks?: boolean = Settings.addBacklinks;
+
 	/**
 	 * Add a search bar to the left sidebar.
 	 */
 	addSearch?: boolean = Settings.addSearchBar;
 
+	/**
+	 * Frontmatter properties which are indexed as search fields, so they can be searched and filtered by.
+	 */
+	searchProperties?: string[] = Settings.searchProperties.split(",").map((property) => property.trim()).filter((property) => property != "");
+
+	/**
+	 * The language code of the search index, used for its stop words and stemming. Notes with a "lang" property use their own language.
+	 */
+	searchLanguage?: string = Settings.searchLanguage;
+
 	/**
 	 * Add the global graph view to the right sidebar.
 	 */
@@ -97,6 +148,47 @@ export class MarkdownWebpageRendererAPIOptions extends MarkdownRendererAPIOption
 	 */
 	addRSS?: boolean = Settings.addRSSFeed;
 
+	/**
+	 * Create an Atom feed for the site
+	 */
+	addAtomFeed?: boolean = Settings.addAtomFeed;
+
+	/**
+	 * Create a JSON Feed for the site
+	 */
+	addJSONFeed?: boolean = Settings.addJSONFeed;
+
+	/**
+	 * Folders and tags (starting with #) which get their own feed in addition to the site feed.
+	 * Folder notes with a "feed" key in their frontmatter also get a feed for their folder.
+	 */
+	scopedFeeds?: string[] = Settings.scopedFeeds.split(",").map((scope) => scope.trim()).filter((scope) => scope != "");
+
+	/**
+	 * Create a sitemap.xml listing every page of the site
+	 */
+	addSitemap?: boolean = Settings.addSitemap;
+
+	/**
+	 * Create a robots.txt pointing to the sitemap
+	 */
+	addRobotsTxt?: boolean = Settings.addRobotsTxt;
+
+	/**
+	 * Write a JSON document with the content and metadata of each page, and a manifest listing them.
+	 */
+	addContentJSON?: boolean = Settings.addContentJSON || Settings.exportPreset == ExportPreset.ContentAPI;
+
+	/**
+	 * Create a page for every tag used in the export, and a page listing all tags.
+	 */
+	addTagPages?: boolean = Settings.addTagPages;
+
+	/**
+	 * Create an index.html page for every folder, using the folder note as its content if there is one.
+	 */
+	addFolderPages?: boolean = Settings.addFolderPages;
+
 	/**
 	 * Add a title to the top of each page. (Makes sure there are no duplicate titles)
 	 */
@@ -189,13 +281,48 @@ export class MarkdownWebpageRendererAPIOptions extends MarkdownRendererAPIOption
 	 */
 	flattenExportPaths?: boolean = false;
 
+	/**
+	 * Write the export into a folder, or into a zip archive, EPUB book or single html file next to that folder.
+	 */
+	exportTarget?: ExportTarget = Settings.exportTarget;
+
+	/**
+	 * The maximum number of files written to disk at the same time.
+	 */
+	writeConcurrency?: number = Settings.writeConcurrency;
+
 	/**
 	 * Fix all links to be relative and direct to other files or media included in the export.
 	 */
 	fixLinks?: boolean = true;
 
 	/**
-	 * The url that this site will be hosted at. This is used for the rss feed data.
+	 * Exclude notes with "publish: false" in their frontmatter from the export.
+	 */
+	excludeUnpublished?: boolean = Settings.excludeUnpublished;
+
+	/**
+	 * Exclude notes with "draft: true" in their frontmatter from the export.
+	 */
+	excludeDrafts?: boolean = Settings.excludeDrafts;
+
+	/**
+	 * Exclude notes with this tag from the export. Leave empty to disable.
+	 */
+	excludeTag?: string = Settings.excludeTag;
+
+	/**
+	 * What to do with links to files which exist in the vault but are not part of the export.
+	 */
+	notExportedLinks?: LinkHandling = Settings.notExportedLinks;
+
+	/**
+	 * What to do with links to files which do not exist.
+	 */
+	unresolvedLinks?: LinkHandling = Settings.unresolvedLinks;
+
+	/**
+	 * The url that this site will be hosted at. This is used for the feed data.
 	 */
 	siteURL?: string = Settings.siteURL;
 
@@ -208,4 +335,54 @@ export class MarkdownWebpageRendererAPIOptions extends MarkdownRendererAPIOption
 	 * The name of the author of the site.
 	 */
 	authorName?: string = Settings.authorName;
+
+	/**
+	 * The language code of the site, set as the lang of the pages and used to translate the site's text.
+	 */
+	language?: string = Settings.siteLanguage;
+
+	/**
+	 * A JSON file of string ids and their text which replaces the bundled translations. Leave empty to disable.
+	 */
+	translationsPath?: string = Settings.translationsPath;
+
+	/**
+	 * Get the options which an export preset changes from the global settings.
+	 */
+	public static getPresetOverrides(preset: ExportPreset): MarkdownWebpageRendererAPIOptions
+	{
+		let inline = preset != ExportPreset.Website && preset != ExportPreset.ContentAPI;
+		let hasLayout = preset != ExportPreset.RawDocuments && preset != ExportPreset.ContentAPI;
+
+		let overrides: MarkdownWebpageRendererAPIOptions = {
+			addSidebars: hasLayout,
+			addFileNavigation: hasLayout,
+			addGraphView: preset == ExportPreset.Website,
+			addSearch: preset == ExportPreset.Website,
+			inlineMedia: inline,
+			inlineCSS: inline,
+			inlineJS: inline,
+			inlineHTML: inline,
+			inlineFonts: inline,
+			webStylePaths: preset == ExportPreset.Website || preset == ExportPreset.ContentAPI,
+		};
+
+		// the content api only writes json documents, so none of the website files are needed
+		if (preset == ExportPreset.ContentAPI)
+		{
+			Object.assign(overrides, {
+				addContentJSON: true,
+				addTitle: false,
+				includeJS: false,
+				includeCSS: false,
+				addRSS: false,
+				addAtomFeed: false,
+				addJSONFeed: false,
+				addSitemap: false,
+				addRobotsTxt: false,
+			});
+		}
+
+		return overrides;
+	}
 }
@@ -1,31 +1,90 @@
 import { Notice, TFile, TFolder } from "obsidian";
 import { Path } from "./utils/path";
-import { Settings, SettingsPage } from "./settings/settings";
+import { ExportPreset, ExportTarget, Settings, SettingsPage } from "./settings/settings";
 import HTMLExportPlugin from "./main";
 import { Utils } from "./utils/utils";
 import { Website } from "./objects/website";
 import { MarkdownRendererAPI } from "./render-api";
+import { MarkdownWebpageRendererAPIOptions } from "./api-options";
+import { ExportLog } from "./html-generation/render-log";
+import { ZipArchive } from "./utils/zip-archive";
+import { EpubBook } from "./objects/epub-book";
+import { WebsiteBundle } from "./objects/website-bundle";
 
 export class HTMLExporter
 {
-	public static async export(usePreviousSettings: boolean = true, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined)
+	/**
+	 * Export using the saved settings, or the settings of a saved profile.
+	 * @param profileId The id of the export profile to use. If undefined, the global settings are used.
+	 */
+	public static async export(usePreviousSettings: boolean = true, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined, profileId: string | undefined = undefined)
 	{
-		let info = await SettingsPage.updateSettings(usePreviousSettings, overrideFiles, overrideExportPath);
+		let profile = profileId ? SettingsPage.getProfile(profileId) : undefined;
+		if (profileId && !profile)
+		{
+			ExportLog.error("No export profile with id: " + profileId);
+			new Notice("❌ Export profile not found", 5000);
+			return;
+		}
+
+		let info = await SettingsPage.updateSettings(usePreviousSettings, overrideFiles, overrideExportPath, profile);
 		if ((!info && !usePreviousSettings) || (info && info.canceled)) return;
 
-		let files = info?.pickedFiles ?? overrideFiles ?? SettingsPage.getFilesToExport();
-		let exportPath = overrideExportPath ?? info?.exportPath ?? new Path(Settings.exportPath);
+		let files = info?.pickedFiles ?? overrideFiles ?? SettingsPage.getFilesToExport(profile?.filesToExport);
+		let exportPath = overrideExportPath ?? info?.exportPath ?? new Path(profile?.exportPath ?? Settings.exportPath);
+
+		let preset = profile?.exportPreset ?? Settings.exportPreset;
+		let options: MarkdownWebpageRendererAPIOptions | undefined = undefined;
+		if (profile)
+		{
+			options = Object.assign(new MarkdownWebpageRendererAPIOptions(), MarkdownWebpageRendererAPIOptions.getPresetOverrides(preset), profile.optionOverrides);
+		}
+		else if (preset == ExportPreset.ContentAPI)
+		{
+			// the content api never writes the website files, even if they are still enabled in the settings
+			options = Object.assign(new MarkdownWebpageRendererAPIOptions(), MarkdownWebpageRendererAPIOptions.getPresetOverrides(preset));
+		}
 
-		let website = await HTMLExporter.exportFiles(files, exportPath, true, Settings.deleteOldFiles);
+		let website = await HTMLExporter.exportFiles(files, exportPath, true, Settings.deleteOldFiles, options, preset);
 
 		if (!website) return;
-		if (Settings.openAfterExport) Utils.openPath(exportPath);
-		new Notice("✅ Finished HTML Export:\n\n" + exportPath, 5000);
+
+		let target = options?.exportTarget ?? Settings.exportTarget;
+		let outputPath = HTMLExporter.getOutputPath(exportPath, target);
+		if (Settings.openAfterExport) Utils.openPath(target == ExportTarget.Folder ? outputPath : outputPath.directory);
+		new Notice("✅ Finished HTML Export:\n\n" + outputPath, 5000);
 	}
 
-	public static async exportFiles(files: TFile[], destination: Path, saveFiles: boolean, deleteOld: boolean) : Promise<Website | undefined>
+	/**
+	 * Get the path of the folder, archive or book an export to the given folder is written to.
+	 */
+	public static getOutputPath(exportPath: Path, target: ExportTarget): Path
 	{
-		var website = await new Website().createWithFiles(files, destination);
+		if (target == ExportTarget.Zip) return ZipArchive.getArchivePath(exportPath);
+		if (target == ExportTarget.Epub) return ZipArchive.getArchivePath(exportPath, "epub");
+		if (target == ExportTarget.SingleFile) return new Path(exportPath.copy.makeUnixStyle().asString.replace(/\/+$/, "") + ".html");
+		return exportPath;
+	}
+
+	public static async exportFiles(files: TFile[], destination: Path, saveFiles: boolean, deleteOld: boolean, options?: MarkdownWebpageRendererAPIOptions, preset: ExportPreset = Settings.exportPreset) : Promise<Website | undefined>
+	{
+		let target = options?.exportTarget ?? Settings.exportTarget;
+		if (saveFiles && target == ExportTarget.Zip)
+		{
+			return await HTMLExporter.exportToZip(files, destination, deleteOld, options, preset);
+		}
+
+		if (saveFiles && target == ExportTarget.Epub)
+		{
+			return await HTMLExporter.exportToEpub(files, destination, options);
+		}
+
+		if (saveFiles && target == ExportTarget.SingleFile)
+		{
+			return await HTMLExporter.exportToBundle(files, destination, options);
+		}
+
+		var website = await new Website(preset).createWithFiles(files, destination, options, saveFiles);
 
 		if (!website)
 		{
@@ -34,10 +93,10 @@ export class HTMLExporter
 		}
 
 		await website.index.updateBodyClasses();
-		if (deleteOld) await website.index.deleteOldFiles();
+		if (deleteOld) await website.index.deleteOldFiles(website.exportOptions);
 		if (saveFiles) 
 		{
-			await Utils.downloadFiles(website.downloads, destination);
+			await Utils.downloadFiles(website.downloads, destination, website.exportOptions.writeConcurrency);
 		}
 
 		MarkdownRendererAPI.endBatch();
@@ -45,6 +104,112 @@ export class HTMLExporter
 		return website;
 	}
 
+	/**
+	 * Export into a zip archive next to the destination folder.
+	 * The previous archive is extracted into a staging folder first, so incremental export,
+	 * deleting old files and merging feeds work the same as when exporting to a folder.
+	 */
+	private static async exportToZip(files: TFile[], destination: Path, deleteOld: boolean, options?: MarkdownWebpageRendererAPIOptions, preset: ExportPreset = Settings.exportPreset) : Promise<Website | undefined>
+	{
+		let archivePath = ZipArchive.getArchivePath(destination);
+		let stagingPath = await ZipArchive.createStagingFolder();
+
+		try
+		{
+			// without the previous files the archive would only contain the changed pages
+			if (archivePath.exists && !await ZipArchive.unpack(archivePath, stagingPath)) return;
+
+			let website = await HTMLExporter.exportFiles(files, stagingPath, true, deleteOld, Object.assign({}, options, { exportTarget: ExportTarget.Folder }), preset);
+			if (!website) return;
+
+			// store the modified times of the source files instead of the time they were written
+			let modifiedTimes: Map<string, number> = new Map();
+			for (let file of [...website.webpages, ...website.downloads])
+			{
+				if (file.modifiedTime > 0) modifiedTimes.set(file.relativePath.copy.makeUnixStyle().asString, file.modifiedTime);
+			}
+
+			await ZipArchive.pack(stagingPath, archivePath, modifiedTimes);
+			return website;
+		}
+		catch (e)
+		{
+			ExportLog.error(e.stack, "Could not create zip archive: " + archivePath.asString);
+			return;
+		}
+		finally
+		{
+			await stagingPath.delete(true);
+		}
+	}
+
+	/**
+	 * Export the files as the chapters of an EPUB book next to the destination folder.
+	 * Books are always created from scratch, and the export preset is ignored.
+	 */
+	private static async exportToEpub(files: TFile[], destination: Path, options?: MarkdownWebpageRendererAPIOptions) : Promise<Website | undefined>
+	{
+		let bookPath = HTMLExporter.getOutputPath(destination, ExportTarget.Epub);
+		let website = await new Website(ExportPreset.Documents).createWithFiles(files, destination, EpubBook.getExportOptions(options));
+
+		if (!website)
+		{
+			new Notice("❌ Export Cancelled", 5000);
+			return;
+		}
+
+		try
+		{
+			await new EpubBook(website).write(bookPath);
+		}
+		catch (e)
+		{
+			ExportLog.error(e.stack, "Could not create epub book: " + bookPath.asString);
+			return;
+		}
+		finally
+		{
+			MarkdownRendererAPI.endBatch();
+		}
+
+		return website;
+	}
+
+	/**
+	 * Export the files as one html file next to the destination folder, containing every page and asset.
+	 * The pages are rendered into an empty staging folder, so the bundle never picks up the search index of a previous export.
+	 */
+	private static async exportToBundle(files: TFile[], destination: Path, options?: MarkdownWebpageRendererAPIOptions) : Promise<Website | undefined>
+	{
+		let bundlePath = HTMLExporter.getOutputPath(destination, ExportTarget.SingleFile);
+		let stagingPath = await ZipArchive.createStagingFolder();
+		let website = await new Website(ExportPreset.Documents).createWithFiles(files, stagingPath, WebsiteBundle.getExportOptions(options));
+
+		if (!website)
+		{
+			await stagingPath.delete(true);
+			new Notice("❌ Export Cancelled", 5000);
+			return;
+		}
+
+		try
+		{
+			await new WebsiteBundle(website).write(bundlePath);
+		}
+		catch (e)
+		{
+			ExportLog.error(e.stack, "Could not create single file export: " + bundlePath.asString);
+			return;
+		}
+		finally
+		{
+			await stagingPath.delete(true);
+			MarkdownRendererAPI.endBatch();
+		}
+
+		return website;
+	}
+
 	public static async exportFolder(folder: TFolder, rootExportPath: Path, saveFiles: boolean, clearDirectory: boolean) : Promise<Website | undefined>
 	{
 		let folderPath = new Path(folder.path);
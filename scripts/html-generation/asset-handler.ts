@@ -11,6 +11,7 @@ import themeLoadJS from "assets/theme-load.txt.js";
 import tinyColorJS from "assets/tinycolor.txt.js";
 import pixiJS from "assets/pixi.txt.js";
 import minisearchJS from "assets/minisearch.txt.js";
+import searchLanguageJS from "scripts/utils/search-language?script";
 
 import { Path } from "scripts/utils/path.js";
 import { Asset, AssetType, InlinePolicy, LoadMethod, Mutability } from "./assets/asset.js";
@@ -104,6 +105,7 @@ export class AssetHandler
 	public static tinyColorJS: Asset = new Asset("tinycolor.js", tinyColorJS, AssetType.Script, InlinePolicy.AutoHead, true, Mutability.Static);
 	public static pixiJS: Asset = new Asset("pixi.js", pixiJS, AssetType.Script, InlinePolicy.AutoHead, true, Mutability.Static, LoadMethod.Async, 100, "https://cdnjs.cloudflare.com/ajax/libs/pixi.js/7.4.0/pixi.min.js");
 	public static minisearchJS: Asset = new Asset("minisearch.js", minisearchJS, AssetType.Script, InlinePolicy.AutoHead, true, Mutability.Static, LoadMethod.Async, 100, "https://cdn.jsdelivr.net/npm/minisearch@6.3.0/dist/umd/index.min.js");
+	public static searchLanguageJS: Asset = new Asset("search-language.js", searchLanguageJS, AssetType.Script, InlinePolicy.AutoHead, true, Mutability.Static, LoadMethod.Async);
 	 
 	// other
 	public static favicon: Favicon = new Favicon();
@@ -183,7 +185,7 @@ export class AssetHandler
 
 		if (!options.addSearch || !options.addSidebars)
 		{
-			downloads = downloads.filter(asset => ![this.minisearchJS].includes(asset));
+			downloads = downloads.filter(asset => ![this.minisearchJS, this.searchLanguageJS].includes(asset));
 		}
 
 		if (!options.includeCSS) 
@@ -20,10 +20,40 @@ export default class HTMLExportPlugin extends Plugin
 	public assetHandler = AssetHandler;
 	public Path = Path;
 
+	private profileCommandIds: string[] = [];
+
 	public async exportDocker() {
 		await HTMLExporter.export(true, undefined, new Path("/output"));
 	}
 
+	/**
+	 * Add an export command for every export profile, and remove commands of deleted profiles.
+	 */
+	public registerProfileCommands()
+	{
+		for (let id of this.profileCommandIds)
+		{
+			// @ts-ignore
+			this.app.commands.removeCommand(`${this.manifest.id}:${id}`);
+		}
+
+		this.profileCommandIds = [];
+
+		for (let profile of Settings.exportProfiles)
+		{
+			let command = this.addCommand({
+				id: `export-html-profile-${profile.id}`,
+				name: `Export profile ${profile.name}`,
+				callback: () =>
+				{
+					HTMLExporter.export(true, undefined, undefined, profile.id);
+				}
+			});
+
+			this.profileCommandIds.push(command.id.replace(`${this.manifest.id}:`, ""));
+		}
+	}
+
 	async onload()
 	{
 		console.log("Loading webpage-html-export plugin");
@@ -34,7 +64,7 @@ export default class HTMLExportPlugin extends Plugin
 		// @ts-ignore
 		window.WebpageHTMLExport = this;
 
-		this.addSettingTab(new SettingsPage(this));
+		this.addSettingTab(new SettingsPage(this, () => this.registerProfileCommands(), (id) => HTMLExporter.export(true, undefined, undefined, id)));
 		await SettingsPage.loadSettings();
 		await AssetHandler.initialize();
 
@@ -72,6 +102,8 @@ export default class HTMLExportPlugin extends Plugin
 			}
 		});
 
+		this.registerProfileCommands();
+
 		this.addCommand({
 			id: 'export-html-setting',
 			name: 'Set html export settings',
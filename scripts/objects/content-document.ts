@@ -0,0 +1,207 @@
+import { FrontMatterCache, TFile } from "obsidian";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+import { Path } from "scripts/utils/path";
+import { Downloadable } from "scripts/utils/downloadable";
+import { MarkdownRendererAPI } from "scripts/render-api";
+import { ExportLog } from "scripts/html-generation/render-log";
+
+/**
+ * A link to another exported note in a content document.
+ */
+export interface ContentLink
+{
+	path: string; // the vault path of the note
+	title: string;
+	document: string; // the path of the note's content document
+}
+
+/**
+ * The data written to the content document of a page.
+ */
+export interface ContentDocumentData
+{
+	path: string; // the vault path of the source file
+	url: string; // the path of the html page, relative to the export folder
+	title: string;
+	description: string;
+	author: string;
+	date: string;
+	modified: string;
+	frontmatter: FrontMatterCache;
+	tags: string[];
+	aliases: string[];
+	headings: {heading: string, level: number, id: string}[];
+	links: {outgoing: ContentLink[], incoming: ContentLink[]};
+	assets: string[]; // the paths of the images and other files used by the page
+	html: string; // the rendered body of the page
+}
+
+/**
+ * An entry of the content manifest.
+ */
+export interface ContentManifestEntry
+{
+	path: string;
+	title: string;
+	document: string;
+	url: string;
+	tags: string[];
+	aliases: string[];
+	modified: string;
+}
+
+/**
+ * A JSON document with the rendered content and metadata of a page, for use in other front-ends.
+ * It is saved next to the page, with the same name and a .json extension.
+ */
+export class ContentDocument extends Downloadable
+{
+	public page: Webpage;
+	public data: ContentDocumentData;
+
+	constructor(page: Webpage)
+	{
+		let filename = new Path(page.filename).setExtension("json").fullName;
+		super(filename, "", page.relativeDirectory.copy);
+		this.page = page;
+		this.modifiedTime = page.source.stat.mtime;
+	}
+
+	/**
+	 * Collect the data of the page. This reads the page's document, so it has to be called before the document is released.
+	 */
+	public async create(): Promise<ContentDocument>
+	{
+		let page = this.page;
+		let website = page.website;
+
+		// obsidian adds the position of the frontmatter block to the cache
+		let frontmatter: FrontMatterCache = Object.assign({}, page.frontmatter);
+		delete frontmatter["position"];
+
+		let toLink = async (file: TFile): Promise<ContentLink> =>
+		({
+			path: file.path,
+			title: (await Website.getTitleAndIcon(file, true)).title,
+			document: ContentDocument.getDocumentPath(website?.getExportPath(file) ?? new Path(file.path)).asString,
+		});
+
+		let outgoing: ContentLink[] = [];
+		for (let targetPath of Object.keys(app.metadataCache.resolvedLinks[page.source.path] ?? {}))
+		{
+			let target = app.vault.getAbstractFileByPath(targetPath);
+			if (!(target instanceof TFile) || target == page.source || !MarkdownRendererAPI.isConvertable(target.extension)) continue;
+			if (website && !website.isFileExported(target)) continue;
+			outgoing.push(await toLink(target));
+		}
+
+		let incoming: ContentLink[] = [];
+		for (let source of website?.index.getIncomingLinks(page.source) ?? [])
+		{
+			incoming.push(await toLink(source));
+		}
+
+		let contentEl = page.viewType == "markdown" ? (page.sizerElement ?? page.viewElement) : page.viewElement;
+
+		this.data =
+		{
+			path: page.source.path,
+			url: page.relativePath.copy.makeUnixStyle().asString,
+			title: page.title,
+			description: page.description,
+			author: page.author,
+			date: new Date(Website.getFileDate(page.source)).toISOString(),
+			modified: new Date(page.source.stat.mtime).toISOString(),
+			frontmatter: frontmatter,
+			tags: page.tags,
+			aliases: page.aliases,
+			// headings of embedded notes are given a level above 6
+			headings: page.headings.filter((heading) => heading.level <= 6).map((heading) => ({ heading: heading.heading, level: heading.level, id: heading.headingEl.id })),
+			links: { outgoing: outgoing, incoming: incoming },
+			assets: page.dependencies.filter((file) => file != this).map((file) => file.relativePath.copy.makeUnixStyle().asString),
+			html: contentEl?.innerHTML ?? "",
+		};
+
+		this.content = JSON.stringify(this.data, null, 2);
+		return this;
+	}
+
+	get manifestEntry(): ContentManifestEntry
+	{
+		return {
+			path: this.data.path,
+			title: this.data.title,
+			document: this.relativePath.copy.makeUnixStyle().asString,
+			url: this.data.url,
+			tags: this.data.tags,
+			aliases: this.data.aliases,
+			modified: this.data.modified,
+		};
+	}
+
+	/**
+	 * Get the path of the content document of a page from the path of the page.
+	 */
+	public static getDocumentPath(pagePath: Path): Path
+	{
+		return pagePath.copy.setExtension("json").makeUnixStyle();
+	}
+}
+
+/**
+ * The list of every content document in the export, saved as content-manifest.json in the export folder.
+ */
+export class ContentManifest
+{
+	public website: Website;
+	public entries: ContentManifestEntry[] = [];
+
+	public static path: string = "content-manifest.json";
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	public addDocument(document: ContentDocument)
+	{
+		this.entries.push(document.manifestEntry);
+	}
+
+	/**
+	 * Get the manifest file, keeping the documents of the previous export which were not exported this time unless they were removed.
+	 * @param removedFiles The vault paths of the files which are no longer part of the export
+	 */
+	public async getDownload(removedFiles: string[]): Promise<Downloadable>
+	{
+		let entries = new Map(this.entries.map((entry) => [entry.path, entry]));
+
+		let oldManifest = await this.website.destination.joinString(ContentManifest.path).readFileString();
+		if (oldManifest)
+		{
+			try
+			{
+				for (let entry of (JSON.parse(oldManifest).documents ?? []) as ContentManifestEntry[])
+				{
+					if (entries.has(entry.path) || removedFiles.includes(entry.path)) continue;
+					entries.set(entry.path, entry);
+				}
+			}
+			catch (e)
+			{
+				ExportLog.warning(e, "Could not read the previous content manifest. Documents of earlier exports are no longer listed.");
+			}
+		}
+
+		let manifest =
+		{
+			siteName: this.website.exportOptions.siteName,
+			siteURL: this.website.exportOptions.siteURL,
+			exported: new Date(this.website.index.exportTime).toISOString(),
+			documents: Array.from(entries.values()).sort((a, b) => a.path.localeCompare(b.path)),
+		};
+
+		return new Downloadable(ContentManifest.path, JSON.stringify(manifest, null, 2), Path.emptyPath);
+	}
+}
@@ -0,0 +1,377 @@
+import { TFile, moment } from "obsidian";
+import { Website } from "./website";
+import { Webpage } from "./webpage";
+import { OutlineTree, OutlineTreeItem } from "./outline-tree";
+import { Path } from "scripts/utils/path";
+import { Utils } from "scripts/utils/utils";
+import { Downloadable } from "scripts/utils/downloadable";
+import { ZipArchive, ZipEntry } from "scripts/utils/zip-archive";
+import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { ExportTarget } from "scripts/settings/settings";
+import epubStyles from "assets/epub-styles.txt.css";
+const mime = require('mime');
+
+interface EpubChapter
+{
+	page: Webpage;
+	filename: string; // the name of the chapter's xhtml file inside the content folder
+	title: string;
+	outline: OutlineTreeItem[];
+}
+
+/**
+ * An EPUB 3 book with one chapter for every note of a website.
+ * Chapters are ordered by the "order" frontmatter key, and then by their position in the file tree.
+ */
+export class EpubBook
+{
+	public website: Website;
+	public chapters: EpubChapter[] = [];
+	public resources: Downloadable[] = [];
+
+	/** The folder inside the archive which holds the package document, chapters and resources */
+	public static contentFolder: string = "OEBPS";
+	public static orderProperty: string = "order";
+
+	/**
+	 * Collect the chapters and images of a website. The pages must still have their documents, so the website has to be created without saving files.
+	 */
+	constructor(website: Website)
+	{
+		this.website = website;
+
+		let pages = website.webpages.filter((page) => page.isConvertable && page.document);
+		pages.sort((a, b) => EpubBook.compareOrder(a.source, b.source));
+
+		for (let i = 0; i < pages.length; i++)
+		{
+			let page = pages[i];
+			this.chapters.push(
+			{
+				page: page,
+				filename: `chapter-${(i + 1).toString().padStart(3, "0")}.xhtml`,
+				title: EpubBook.getPlainText(page.title) || page.source.basename,
+				outline: EpubBook.getOutline(page),
+			});
+		}
+
+		// images can be shared between pages, and attachments in the selection are exported as their own pages
+		let resourcePaths = new Set<string>();
+		let candidates = [...pages.flatMap((page) => page.dependencies), ...website.webpages.filter((page) => !page.isConvertable)];
+		for (let resource of candidates)
+		{
+			let path = resource.relativePath.copy.makeUnixStyle().asString;
+			if (resourcePaths.has(path) || !EpubBook.getMediaType(path).startsWith("image/")) continue;
+
+			resourcePaths.add(path);
+			this.resources.push(resource);
+		}
+	}
+
+	/**
+	 * Get the options used to render the pages of a book.
+	 * Pages are rendered without the website layout, scripts, generated pages or inlined media, and with web style paths so they are valid in the archive.
+	 */
+	public static getExportOptions(options?: MarkdownWebpageRendererAPIOptions): MarkdownWebpageRendererAPIOptions
+	{
+		return Object.assign(new MarkdownWebpageRendererAPIOptions(), options,
+		{
+			addSidebars: false,
+			addHeadTag: false,
+			addBodyClasses: false,
+			addMathjaxStyles: false,
+			addTitle: true,
+			addSearch: false,
+			addGraphView: false,
+			addFileNavigation: false,
+			addOutline: false,
+			addBacklinks: false,
+			addTagPages: false,
+			addFolderPages: false,
+			addRSS: false,
+			addAtomFeed: false,
+			addJSONFeed: false,
+			scopedFeeds: [],
+			addSitemap: false,
+			addRobotsTxt: false,
+			allowFoldingHeadings: false,
+			allowFoldingLists: false,
+			includeJS: false,
+			includeCSS: false,
+			inlineMedia: false,
+			inlineCSS: false,
+			inlineJS: false,
+			inlineHTML: false,
+			inlineFonts: false,
+			webStylePaths: true,
+			flattenExportPaths: false,
+			exportTarget: ExportTarget.Folder,
+		});
+	}
+
+	/**
+	 * Write the book to an .epub file, replacing it if it exists.
+	 */
+	public async write(bookPath: Path)
+	{
+		let folder = EpubBook.contentFolder;
+		let entries: ZipEntry[] =
+		[
+			// the mimetype has to be the first file in the archive, and must not be compressed
+			{ path: "mimetype", content: "application/epub+zip", store: true },
+			{ path: "META-INF/container.xml", content: this.getContainerDocument() },
+			{ path: `${folder}/content.opf`, content: this.getPackageDocument() },
+			{ path: `${folder}/nav.xhtml`, content: this.getNavigationDocument() },
+			{ path: `${folder}/styles.css`, content: epubStyles },
+		];
+
+		for (let chapter of this.chapters)
+		{
+			entries.push({ path: `${folder}/${chapter.filename}`, content: this.getChapterDocument(chapter), modifiedTime: chapter.page.modifiedTime || undefined });
+		}
+
+		for (let resource of this.resources)
+		{
+			let path = resource.relativePath.copy.makeUnixStyle().asString;
+			entries.push({ path: `${folder}/${path}`, content: resource.content, modifiedTime: resource.modifiedTime || undefined });
+		}
+
+		await ZipArchive.write(bookPath, entries);
+	}
+
+	private get title(): string
+	{
+		return this.website.exportOptions.siteName || app.vault.getName();
+	}
+
+	/**
+	 * The language of the export, or the language of Obsidian if none is set.
+	 */
+	private get language(): string
+	{
+		return this.website.exportOptions.language?.trim() || moment.locale() || "en";
+	}
+
+	private getContainerDocument(): string
+	{
+		return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+	<rootfiles>
+		<rootfile full-path="${EpubBook.contentFolder}/content.opf" media-type="application/oebps-package+xml"/>
+	</rootfiles>
+</container>`;
+	}
+
+	private getPackageDocument(): string
+	{
+		// the identifier is derived from the title and chapters, so exporting the same book again keeps its identity in e-reader libraries
+		let hash = Utils.hash(this.title + this.website.batchFiles.map((file) => file.path).sort().join("\n"));
+		let identifier = `urn:uuid:${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+		let modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+		let author = this.website.exportOptions.authorName;
+
+		let manifest =
+		[
+			`<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+			`<item id="styles" href="styles.css" media-type="text/css"/>`,
+			...this.chapters.map((chapter, i) => `<item id="chapter-${i + 1}" href="${chapter.filename}" media-type="application/xhtml+xml"/>`),
+			...this.resources.map((resource, i) =>
+			{
+				let path = resource.relativePath.copy.makeUnixStyle().asString;
+				return `<item id="resource-${i + 1}" href="${EpubBook.escapeXML(encodeURI(path))}" media-type="${EpubBook.getMediaType(path)}"/>`;
+			}),
+		];
+
+		let spine = this.chapters.map((chapter, i) => `<itemref idref="chapter-${i + 1}"/>`);
+
+		return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${this.language}">
+	<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+		<dc:identifier id="book-id">${identifier}</dc:identifier>
+		<dc:title>${EpubBook.escapeXML(this.title)}</dc:title>
+		<dc:language>${this.language}</dc:language>
+		${author ? `<dc:creator>${EpubBook.escapeXML(author)}</dc:creator>` : ""}
+		<meta property="dcterms:modified">${modified}</meta>
+	</metadata>
+	<manifest>
+		${manifest.join("\n\t\t")}
+	</manifest>
+	<spine>
+		${spine.join("\n\t\t")}
+	</spine>
+</package>`;
+	}
+
+	/**
+	 * The table of contents, with an entry for every chapter and its headings.
+	 */
+	private getNavigationDocument(): string
+	{
+		let items = this.chapters.map((chapter) =>
+			`<li><a href="${chapter.filename}">${EpubBook.escapeXML(chapter.title)}</a>${this.getOutlineList(chapter, chapter.outline)}</li>`
+		);
+
+		return this.getXHTMLDocument(this.title,
+`<nav epub:type="toc" id="toc">
+	<h1>${EpubBook.escapeXML(this.title)}</h1>
+	<ol>
+		${items.join("\n\t\t")}
+	</ol>
+</nav>`);
+	}
+
+	private getOutlineList(chapter: EpubChapter, items: OutlineTreeItem[]): string
+	{
+		if (items.length == 0) return "";
+
+		let listItems = items.map((item) =>
+		{
+			let id = item.href?.split("#")[1] ?? "";
+			return `<li><a href="${chapter.filename}#${EpubBook.escapeXML(id)}">${EpubBook.escapeXML(item.heading)}</a>${this.getOutlineList(chapter, item.children)}</li>`;
+		});
+
+		return `<ol>${listItems.join("")}</ol>`;
+	}
+
+	private getChapterDocument(chapter: EpubChapter): string
+	{
+		let page = chapter.page;
+		let content = (page.sizerElement ?? page.viewElement).cloneNode(true) as HTMLElement;
+
+		content.querySelectorAll("script, style, iframe, button, .collapse-indicator, .heading-collapse-indicator, .copy-code-button").forEach((el) => el.remove());
+
+		// tags have no pages in a book
+		content.querySelectorAll("a.tag").forEach((tagEl) =>
+		{
+			let textEl = document.createElement("span");
+			textEl.className = "tag";
+			textEl.textContent = tagEl.textContent;
+			tagEl.replaceWith(textEl);
+		});
+
+		content.querySelectorAll("a[href]").forEach((linkEl) =>
+		{
+			let href = this.getChapterHref(linkEl.getAttribute("href") ?? "");
+			if (href != undefined)
+			{
+				linkEl.setAttribute("href", href);
+				linkEl.removeAttribute("target");
+				return;
+			}
+
+			let textEl = document.createElement("span");
+			textEl.innerHTML = linkEl.innerHTML;
+			linkEl.replaceWith(textEl);
+		});
+
+		let body = new XMLSerializer().serializeToString(content);
+		return this.getXHTMLDocument(chapter.title, body);
+	}
+
+	/**
+	 * Point a link from an exported page to the chapter it leads to.
+	 * @returns undefined if the link leads to a file which is not part of the book
+	 */
+	private getChapterHref(href: string): string | undefined
+	{
+		if (href.startsWith("#") || /^[a-z][a-z0-9+.-]*:/i.test(href)) return href;
+
+		let [path, heading] = href.split("#");
+		path = decodeURI(path);
+
+		let chapter = this.chapters.find((chapter) => chapter.page.relativePath.copy.makeUnixStyle().asString == path);
+		if (chapter) return chapter.filename + (heading ? "#" + heading : "");
+
+		let isResource = this.resources.some((resource) => resource.relativePath.copy.makeUnixStyle().asString == path);
+		return isResource ? href : undefined;
+	}
+
+	private getXHTMLDocument(title: string, body: string): string
+	{
+		return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${this.language}" lang="${this.language}">
+<head>
+	<meta charset="UTF-8"/>
+	<title>${EpubBook.escapeXML(title)}</title>
+	<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+	}
+
+	/**
+	 * Get the headings of a page for the table of contents, leaving out the page title and headings of embedded notes.
+	 */
+	private static getOutline(page: Webpage): OutlineTreeItem[]
+	{
+		// headings of embedded notes are given a level above 6
+		let removeEmbedded = (items: OutlineTreeItem[]): OutlineTreeItem[] => items.filter((item) => item.depth <= 6).map((item) =>
+		{
+			item.children = removeEmbedded(item.children);
+			return item;
+		});
+
+		let items = removeEmbedded(new OutlineTree(page, 1).children);
+		if (items.length > 0 && page.document?.querySelector(".page-title"))
+		{
+			items = [...items[0].children, ...items.slice(1)];
+		}
+
+		return items;
+	}
+
+	private static compareOrder(a: TFile, b: TFile): number
+	{
+		let aOrder = Number(app.metadataCache.getFileCache(a)?.frontmatter?.[EpubBook.orderProperty]);
+		let bOrder = Number(app.metadataCache.getFileCache(b)?.frontmatter?.[EpubBook.orderProperty]);
+		if (isNaN(aOrder)) aOrder = Infinity;
+		if (isNaN(bOrder)) bOrder = Infinity;
+		if (aOrder != bOrder) return aOrder < bOrder ? -1 : 1;
+
+		return EpubBook.compareTreeOrder(a, b);
+	}
+
+	/**
+	 * Compare files by their position in the file tree: folders come before files, and names are sorted alphabetically.
+	 */
+	private static compareTreeOrder(a: TFile, b: TFile): number
+	{
+		let aParts = a.path.split("/");
+		let bParts = b.path.split("/");
+
+		for (let i = 0; i < Math.min(aParts.length, bParts.length); i++)
+		{
+			if (aParts[i] == bParts[i]) continue;
+
+			let aIsFolder = i < aParts.length - 1;
+			let bIsFolder = i < bParts.length - 1;
+			if (aIsFolder != bIsFolder) return aIsFolder ? -1 : 1;
+
+			let aName = aIsFolder ? aParts[i] : a.basename;
+			let bName = bIsFolder ? bParts[i] : b.basename;
+			return aName.localeCompare(bName, undefined, { numeric: true });
+		}
+
+		return aParts.length - bParts.length;
+	}
+
+	private static getMediaType(path: string): string
+	{
+		return mime.getType(path) ?? "application/octet-stream";
+	}
+
+	private static getPlainText(html: string): string
+	{
+		let el = document.createElement("div");
+		el.innerHTML = html;
+		return el.textContent?.trim() ?? "";
+	}
+
+	private static escapeXML(text: string): string
+	{
+		return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+	}
+}
@@ -0,0 +1,469 @@
+import { AssetHandler } from "scripts/html-generation/asset-handler";
+import { Path } from "scripts/utils/path";
+import { Downloadable } from "scripts/utils/downloadable";
+import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+import { TFile, getAllTags } from "obsidian";
+import RSS from 'rss';
+
+export enum FeedFormat
+{
+	RSS = "rss",
+	Atom = "atom",
+	JSON = "json",
+}
+
+/**
+ * Limits a feed to the notes in a folder or with a tag.
+ */
+export interface FeedScope
+{
+	type: "folder" | "tag";
+	value: string; // the folder path, or the tag without the leading #
+}
+
+/**
+ * A single entry of a feed, independent of the format it is serialized to.
+ */
+export interface FeedItem
+{
+	id: string; // the vault path of the source file, used as the rss guid
+	title: string;
+	url: string;
+	description: string; // html
+	author: string | undefined;
+	date: Date;
+	tags: {name: string, url: string}[];
+	imageURL: string | undefined;
+}
+
+/**
+ * A feed of the pages of a website, which can be serialized to RSS 2.0, Atom and JSON Feed 1.1.
+ */
+export class Feed
+{
+	public static readonly formatInfo: Record<FeedFormat, {filename: string, mimeType: string, title: string}> =
+	{
+		[FeedFormat.RSS]: { filename: "rss.xml", mimeType: "application/rss+xml", title: "RSS Feed" },
+		[FeedFormat.Atom]: { filename: "atom.xml", mimeType: "application/atom+xml", title: "Atom Feed" },
+		[FeedFormat.JSON]: { filename: "feed.json", mimeType: "application/feed+json", title: "JSON Feed" },
+	};
+
+	public website: Website;
+	public title: string;
+	public description: string;
+	public siteURL: string;
+	public author: string | undefined;
+	public imageURL: string;
+	public updated: Date;
+	public items: FeedItem[] = [];
+
+	/**
+	 * The folder or tag this feed is limited to, or undefined for the feed of the whole site.
+	 */
+	public scope: FeedScope | undefined;
+
+	/**
+	 * The directory the feed files are written to, relative to the root of the site.
+	 */
+	public directory: Path = AssetHandler.libraryPath;
+
+	constructor(website: Website, title?: string, description?: string, scope?: FeedScope)
+	{
+		this.scope = scope;
+		if (scope)
+		{
+			let scopePath = scope.type == "tag" ? Path.joinStrings("tags", scope.value) : new Path(scope.value);
+			this.directory = AssetHandler.libraryPath.joinString("feeds").join(scopePath).makeWebStyle(website.exportOptions.webStylePaths);
+		}
+
+		this.website = website;
+		this.siteURL = website.exportOptions.siteURL ?? "";
+		this.title = title ?? website.exportOptions.siteName ?? app.vault.getName();
+		this.description = description ?? "Obsidian digital garden";
+		this.author = website.exportOptions.authorName || undefined;
+		this.imageURL = Path.joinStrings(this.siteURL, AssetHandler.favicon.relativePath.asString).makeUnixStyle().asString;
+		this.updated = new Date(website.index.exportTime);
+	}
+
+	/**
+	 * The formats enabled by the given export options.
+	 */
+	public static getEnabledFormats(options: MarkdownWebpageRendererAPIOptions): FeedFormat[]
+	{
+		let formats: FeedFormat[] = [];
+		if (options.addRSS) formats.push(FeedFormat.RSS);
+		if (options.addAtomFeed) formats.push(FeedFormat.Atom);
+		if (options.addJSONFeed) formats.push(FeedFormat.JSON);
+		return formats;
+	}
+
+	/**
+	 * The path of the feed file of the given format, relative to the root of the site.
+	 */
+	public getPath(format: FeedFormat): string
+	{
+		return this.directory.joinString(Feed.formatInfo[format].filename).makeUnixStyle().asString;
+	}
+
+	public getURL(format: FeedFormat): string
+	{
+		return Path.joinStrings(this.siteURL, this.getPath(format)).makeUnixStyle().asString;
+	}
+
+	/**
+	 * The title of the feed's <link rel="alternate"> in the given format.
+	 */
+	public getLinkTitle(format: FeedFormat): string
+	{
+		let formatTitle = Feed.formatInfo[format].title;
+		return this.scope ? `${this.title} - ${formatTitle}` : formatTitle;
+	}
+
+	/**
+	 * Check if a file falls within the scope of this feed.
+	 */
+	public includesFile(file: TFile): boolean
+	{
+		if (!this.scope) return true;
+
+		if (this.scope.type == "folder")
+		{
+			return file.path.startsWith(this.scope.value + "/");
+		}
+
+		let cache = app.metadataCache.getFileCache(file);
+		let tags = (cache ? getAllTags(cache) : undefined) ?? [];
+		let scopeTag = this.scope.value.toLowerCase();
+		return tags.some((tag) => 
+		{
+			tag = tag.replace(/^#/, "").toLowerCase();
+			return tag == scopeTag || tag.startsWith(scopeTag + "/");
+		});
+	}
+
+	/**
+	 * Add a webpage to the feed.
+	 * @returns false if the page is outside the feed's scope or not suitable for a feed (generated, not a note, or empty)
+	 */
+	public addPage(page: Webpage): boolean
+	{
+		// only include convertable pages with content
+		if (!this.includesFile(page.source) || !page.isConvertable || this.website.generatedPages.some((generated) => generated == page) || page.sizerElement.innerText.length < 5) return false;
+
+		let tags = page.tags.map((tag) =>
+		{
+			let tagPage = this.website.getTagPage(tag);
+			let tagURL = tagPage ? Path.joinStrings(this.siteURL, tagPage.relativePath.copy.makeUnixStyle().asString).asString : `${this.siteURL}?query=tag:${tag.replace("#", "")}`;
+			return { name: tag, url: tagURL };
+		});
+
+		this.items.push(
+		{
+			id: page.source.path,
+			title: page.title,
+			url: Path.joinStrings(this.siteURL, page.relativePath.asString).asString,
+			description: page.description || this.getPageSummary(page),
+			author: page.author || this.author,
+			date: new Date(page.source.stat.mtime),
+			tags: tags,
+			imageURL: page.metadataImageURL,
+		});
+
+		return true;
+	}
+
+	/**
+	 * Serialize the feed, merging in the items of the previous export of the same feed.
+	 * @param oldFeed The contents of the previously exported feed file
+	 * @param removedFiles The vault paths of removed files whose items should be dropped from the old feed
+	 */
+	public serialize(format: FeedFormat, oldFeed?: string, removedFiles: string[] = []): string
+	{
+		// pages which are no longer in the scope of the feed are dropped from the old feed too
+		if (this.scope)
+		{
+			let outOfScope = app.vault.getMarkdownFiles().filter((file) => !this.includesFile(file) && this.website.index.getMetadataForPath(file.path));
+			removedFiles = removedFiles.concat(outOfScope.map((file) => file.path));
+		}
+
+		// atom and json feeds identify items by their url instead of their vault path
+		let removedURLs = removedFiles.map((path) => Path.joinStrings(this.siteURL, this.website.index.getMetadataForPath(path)?.exportedPath ?? "").asString);
+
+		switch (format)
+		{
+			case FeedFormat.RSS:
+				return Feed.mergeXML(this.toRSS(), oldFeed, "channel", "item", "guid", removedFiles);
+			case FeedFormat.Atom:
+				return Feed.mergeXML(this.toAtom(), oldFeed, "feed", "entry", "id", removedURLs);
+			case FeedFormat.JSON:
+				return Feed.mergeJSON(this.toJSON(), oldFeed, removedURLs);
+		}
+	}
+
+	/**
+	 * Get the feed in each of the given formats, keeping the items of the previous export at the destination.
+	 */
+	public async getDownloads(formats: FeedFormat[], destination: Path, removedFiles: string[] = []): Promise<Downloadable[]>
+	{
+		let downloads: Downloadable[] = [];
+		for (let format of formats)
+		{
+			let path = new Path(this.getPath(format));
+			let oldFeed = await destination.join(path).readFileString();
+			let result = this.serialize(format, oldFeed, removedFiles);
+
+			downloads.push(new Downloadable(path.fullName, result, path.directory));
+		}
+
+		return downloads;
+	}
+
+	private getItemContent(item: FeedItem): string
+	{
+		// add tags to top of description
+		let tagStyle = "background-color: #046c74; color: white; font-weight: 700; border: none; border-radius: 1em; padding: 0.2em 0.5em;";
+		let tags = item.tags.map((tag) => `<a class="tag" href="${tag.url}" style="${tagStyle}">${tag.name}</a>`).join(" ");
+		if (tags == "") return item.description;
+		return `<div style="display: flex; gap: 0.4em;">${tags}</div> \n ${item.description}`;
+	}
+
+	private toRSS(): string
+	{
+		let rss = new RSS(
+		{
+			title: this.title,
+			description: this.description,
+			generator: "Webpage HTML Export plugin for Obsidian",
+			feed_url: this.getURL(FeedFormat.RSS),
+			site_url: this.siteURL,
+			image_url: this.imageURL,
+			pubDate: this.updated,
+			copyright: this.author,
+			ttl: 60,
+			custom_elements:
+			[
+				{ "dc:creator": this.author },
+			]
+		});
+
+		for (let item of this.items)
+		{
+			let hasMedia = (item.imageURL ?? "") != "";
+			rss.item(
+			{
+				title: item.title,
+				description: this.getItemContent(item),
+				url: item.url,
+				guid: item.id,
+				date: item.date,
+				categories: item.tags.map((tag) => tag.name.replace(/^#/, "")),
+				enclosure: hasMedia ? { url: item.imageURL ?? "" } : undefined,
+				author: item.author,
+				custom_elements:
+				[
+					hasMedia ? { "content:encoded": `<figure><img src="${item.imageURL}"></figure>` } : undefined,
+				]
+			});
+		}
+
+		return rss.xml();
+	}
+
+	private toAtom(): string
+	{
+		let author = (name: string | undefined) => name ? `<author><name>${Feed.escapeXML(name)}</name></author>` : "";
+
+		let atom = `<?xml version="1.0" encoding="UTF-8"?>\n<feed xmlns="http://www.w3.org/2005/Atom">\n`;
+		atom += `<title>${Feed.escapeXML(this.title)}</title>\n`;
+		atom += `<subtitle>${Feed.escapeXML(this.description)}</subtitle>\n`;
+		atom += `<id>${Feed.escapeXML(this.getURL(FeedFormat.Atom))}</id>\n`;
+		atom += `<link rel="self" type="application/atom+xml" href="${Feed.escapeXML(this.getURL(FeedFormat.Atom))}"/>\n`;
+		atom += `<link rel="alternate" type="text/html" href="${Feed.escapeXML(this.siteURL)}"/>\n`;
+		atom += `<updated>${this.updated.toISOString()}</updated>\n`;
+		atom += `<generator>Webpage HTML Export plugin for Obsidian</generator>\n`;
+		atom += `<icon>${Feed.escapeXML(this.imageURL)}</icon>\n`;
+		atom += author(this.author) + "\n";
+
+		for (let item of this.items)
+		{
+			atom += `<entry>\n`;
+			atom += `\t<title>${Feed.escapeXML(item.title)}</title>\n`;
+			atom += `\t<id>${Feed.escapeXML(item.url)}</id>\n`;
+			atom += `\t<link rel="alternate" type="text/html" href="${Feed.escapeXML(item.url)}"/>\n`;
+			atom += `\t<updated>${item.date.toISOString()}</updated>\n`;
+			atom += `\t${author(item.author)}\n`;
+			for (let tag of item.tags) atom += `\t<category term="${Feed.escapeXML(tag.name.replace(/^#/, ""))}"/>\n`;
+			if (item.imageURL) atom += `\t<link rel="enclosure" href="${Feed.escapeXML(item.imageURL)}"/>\n`;
+			atom += `\t<content type="html">${Feed.escapeXML(this.getItemContent(item))}</content>\n`;
+			atom += `</entry>\n`;
+		}
+
+		atom += `</feed>\n`;
+		return atom;
+	}
+
+	private toJSON(): string
+	{
+		let author = (name: string | undefined) => name ? [{ name: name }] : undefined;
+
+		let feed =
+		{
+			version: "https://jsonfeed.org/version/1.1",
+			title: this.title,
+			description: this.description,
+			home_page_url: this.siteURL,
+			feed_url: this.getURL(FeedFormat.JSON),
+			icon: this.imageURL,
+			authors: author(this.author),
+			items: this.items.map((item) =>
+			({
+				id: item.url,
+				url: item.url,
+				title: item.title,
+				content_html: this.getItemContent(item),
+				image: item.imageURL,
+				date_modified: item.date.toISOString(),
+				authors: author(item.author),
+				tags: item.tags.map((tag) => tag.name.replace(/^#/, "")),
+			})),
+		};
+
+		return JSON.stringify(feed, null, 2);
+	}
+
+	/**
+	 * Insert the items of an old xml feed into a new one, skipping duplicates and removed items.
+	 */
+	private static mergeXML(result: string, oldFeed: string | undefined, containerSelector: string, itemSelector: string, idSelector: string, removedIDs: string[]): string
+	{
+		if (!oldFeed) return result;
+
+		let docOld = new DOMParser().parseFromString(oldFeed, "text/xml");
+		let docNew = new DOMParser().parseFromString(result, "text/xml");
+
+		// insert old items into new feed and remove duplicates
+		let oldItems = Array.from(docOld.querySelectorAll(itemSelector)) as HTMLElement[];
+		let newItems = Array.from(docNew.querySelectorAll(itemSelector)) as HTMLElement[];
+
+		oldItems = oldItems.filter((oldItem) => !newItems.find((newItem) => newItem.querySelector(idSelector)?.textContent == oldItem.querySelector(idSelector)?.textContent));
+		oldItems = oldItems.filter((oldItem) => !removedIDs.contains(oldItem.querySelector(idSelector)?.textContent ?? ""));
+		newItems = newItems.concat(oldItems);
+
+		// remove all items from new feed
+		newItems.forEach((item) => item.remove());
+
+		// add items back to new feed
+		let container = docNew.querySelector(containerSelector);
+		newItems.forEach((item) => container?.appendChild(item));
+
+		return docNew.documentElement.outerHTML;
+	}
+
+	private static mergeJSON(result: string, oldFeed: string | undefined, removedIDs: string[]): string
+	{
+		if (!oldFeed) return result;
+
+		let feedOld: {items?: {id: string}[]};
+		try
+		{
+			feedOld = JSON.parse(oldFeed);
+		}
+		catch
+		{
+			return result;
+		}
+
+		let feedNew = JSON.parse(result);
+		let oldItems = (feedOld.items ?? []).filter((oldItem) =>
+			!feedNew.items.find((newItem: {id: string}) => newItem.id == oldItem.id) && !removedIDs.contains(oldItem.id));
+		feedNew.items = feedNew.items.concat(oldItems);
+
+		return JSON.stringify(feedNew, null, 2);
+	}
+
+	private static escapeXML(text: string): string
+	{
+		return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll("\"", "&quot;").replaceAll("'", "&apos;");
+	}
+
+	/**
+	 * Create a short html summary of a page from its text, links and images.
+	 */
+	private getPageSummary(page: Webpage): string
+	{
+		let content = page.viewElement.cloneNode(true) as HTMLElement;
+		content.querySelectorAll(`h1, h2, h3, h4, h5, h6, .mermaid, table, mjx-container, style, script,
+.mod-header, .mod-footer, .metadata-container, .frontmatter, img[src^="data:"]`).forEach((heading) => heading.remove());
+
+		// update image links
+		content.querySelectorAll("[src]").forEach((el: HTMLImageElement) =>
+		{
+			let src = el.src;
+			if (!src) return;
+			if (src.startsWith("http") || src.startsWith("data:")) return;
+			src = src.replace("app://obsidian", "");
+			src = src.replace(".md", "");
+			let path = Path.joinStrings(this.siteURL, src);
+			el.src = path.asString;
+		});
+
+		// update normal links
+		content.querySelectorAll("[href]").forEach((el: HTMLAnchorElement) =>
+		{
+			let href = el.href;
+			if (!href) return;
+			if (href.startsWith("http") || href.startsWith("data:")) return;
+			href = href.replace("app://obsidian", "");
+			href = href.replace(".md", "");
+			let path = Path.joinStrings(this.siteURL, href);
+			el.href = path.asString;
+		});
+
+		function keepTextLinksImages(element: HTMLElement)
+		{
+			let walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+			let node;
+			let nodes = [];
+			while ((node = walker.nextNode()) != null)
+			{
+				if (node.nodeType == Node.ELEMENT_NODE)
+				{
+					let element = node as HTMLElement;
+					if (element.tagName == "A" || element.tagName == "IMG" || element.tagName == "BR")
+					{
+						nodes.push(element);
+					}
+
+					if (element.tagName == "DIV")
+					{
+						let classes = element.parentElement?.classList;
+						if (classes?.contains("heading-children") || classes?.contains("markdown-preview-sizer"))
+						{
+							nodes.push(document.createElement("br"));
+						}
+					}
+
+					if (element.tagName == "LI")
+					{
+						nodes.push(document.createElement("br"));
+					}
+				}
+				else
+				{
+					if (node.parentElement?.tagName != "A" && node.parentElement?.tagName != "IMG")
+						nodes.push(node);
+				}
+			}
+
+			element.innerHTML = "";
+			element.append(...nodes);
+		}
+
+		keepTextLinksImages(content);
+		let summary = content.innerHTML;
+		content.remove();
+		return summary;
+	}
+}
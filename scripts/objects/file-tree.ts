@@ -12,6 +12,8 @@ export class FileTree extends Tree
 	public hideFileExtentionTags: string[] = [];
 
 	public files: TFile[];
+	/** Links to the pages of folders which have one, by folder path */
+	public folderLinks: Map<string, string> = new Map();
 	public keepOriginalExtensions: boolean;
 	public sort: boolean;
 
@@ -58,6 +60,7 @@ export class FileTree extends Tree
 					if(child.isFolder) 
 					{
 						child.itemClass = "mod-tree-folder nav-folder";
+						child.href = this.folderLinks.get(section.path);
 						let titleInfo = await Website.getTitleAndIcon(section);
 						child.icon = titleInfo.icon;
 					}
@@ -0,0 +1,98 @@
+import { TAbstractFile, TFile, TFolder } from "obsidian";
+import { Path } from "scripts/utils/path";
+import { Utils } from "scripts/utils/utils";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+import { MarkdownRendererAPI } from "scripts/render-api";
+import { MarkdownRendererAPIOptions, MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+
+/**
+ * A webpage which is not backed by a file in the vault, but by markdown generated during the export. (tag pages, index pages, etc.)
+ */
+export class GeneratedWebpage extends Webpage
+{
+	/**
+	 * The markdown which is rendered as the content of this page
+	 */
+	public markdown: string;
+
+	/**
+	 * @param vaultPath The path this page would have in the vault, determines where it is exported to
+	 * @param title The title of the page
+	 * @param markdown The markdown content of the page
+	 * @param destination The absolute path to the FOLDER we are exporting to
+	 * @param website The website this page is part of
+	 * @param options The options for exporting this page
+	 * @param sourceFiles The files the page is generated from, the page was last modified when the newest of them was
+	 */
+	constructor(vaultPath: string, title: string, markdown: string, destination?: Path, website?: Website, options?: MarkdownWebpageRendererAPIOptions, sourceFiles: TFile[] = [])
+	{
+		let modifiedTime = sourceFiles.length > 0 ? sourceFiles.reduce((newest, file) => Math.max(newest, file.stat.mtime), 0) : Date.now();
+		let file = GeneratedWebpage.createVirtualFile(vaultPath, markdown.length, modifiedTime);
+		super(file, destination, file.basename, website, options);
+		this.markdown = markdown;
+		this.title = title;
+	}
+
+	protected override async getTitleInfo(): Promise<{title: string, icon: string, isDefaultTitle: boolean, isDefaultIcon: boolean}>
+	{
+		return { title: this.title, icon: "", isDefaultTitle: false, isDefaultIcon: true };
+	}
+
+	protected override async renderContent(options: MarkdownRendererAPIOptions): Promise<{contentEl: HTMLElement, viewType: string} | undefined>
+	{
+		let contentEl = await MarkdownRendererAPI.renderMarkdownToElement(this.markdown, options);
+		if (!contentEl) return undefined;
+		return { contentEl: contentEl, viewType: "markdown" };
+	}
+
+	/**
+	 * Create a file object which does not exist in the vault.
+	 * Missing parent folders are also created virtually, existing vault folders are reused.
+	 * @param path The vault path of the file, the basename is used as the title of the file in the file tree.
+	 * @param size The size of the file's content
+	 * @param modifiedTime The modified time of the file
+	 */
+	public static createVirtualFile(path: string, size: number = 0, modifiedTime: number = Date.now()): TFile
+	{
+		path = path.replaceAll("\\", "/");
+		let name = path.split("/").pop() ?? path;
+		let extensionIndex = name.lastIndexOf(".");
+
+		let file = Object.create(TFile.prototype) as TFile;
+		Object.assign(file,
+		{
+			vault: app.vault,
+			path: path,
+			name: name,
+			basename: extensionIndex > 0 ? name.substring(0, extensionIndex) : name,
+			extension: extensionIndex > 0 ? name.substring(extensionIndex + 1) : "",
+			parent: GeneratedWebpage.getVirtualFolder(path.substring(0, path.length - name.length)),
+			stat: { ctime: modifiedTime, mtime: modifiedTime, size: size },
+		});
+
+		return file;
+	}
+
+	private static getVirtualFolder(path: string): TFolder
+	{
+		path = Utils.trimEnd(path, "/");
+		if (path == "" || path == ".") return app.vault.getRoot();
+
+		let existing: TAbstractFile | null = app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFolder) return existing;
+
+		let name = path.split("/").pop() ?? path;
+		let folder = Object.create(TFolder.prototype) as TFolder;
+		Object.assign(folder,
+		{
+			vault: app.vault,
+			path: path,
+			name: name,
+			parent: GeneratedWebpage.getVirtualFolder(path.substring(0, path.length - name.length)),
+			children: [],
+		});
+
+		return folder;
+	}
+}
@@ -1,8 +1,28 @@
-import { TFile } from "obsidian";
+import { TFile, getAllTags } from "obsidian";
 import { Path } from "scripts/utils/path";
 import { Settings } from "scripts/settings/settings";
 import { Website } from "./website";
-import { GraphViewOptions, MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { GraphColorGroup, GraphViewOptions, MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { SiteStrings, Translations } from "scripts/utils/translations";
+import { MarkdownRendererAPI } from "scripts/render-api";
+import { ExportLog } from "scripts/html-generation/render-log";
+import { GraphLayout } from "scripts/utils/graph-layout";
+
+export enum GraphNodeType
+{
+	Page = "page",
+	Attachment = "attachment",
+	Tag = "tag",
+}
+
+/**
+ * A color group as saved in the graph settings of the vault.
+ */
+interface VaultColorGroup
+{
+	query: string;
+	color: {rgb: number};
+}
 
 export class GraphView
 {
@@ -10,9 +30,13 @@ export class GraphView
 	public linkCount: number;
 	public radii: number[];
 	public labels: string[];
-	public paths: string[];
+	public paths: string[]; // tags without a tag page have an empty path
 	public linkSources: number[];
 	public linkTargets: number[];
+	public nodeTypes: GraphNodeType[];
+	public nodeGroups: number[]; // the index of the color group of each node, or -1
+	public colorGroups: GraphColorGroup[];
+	public positions: number[] | undefined = undefined; // the x and y of every node, if the layout is computed at export time
 
 	public graphOptions: GraphViewOptions = new GraphViewOptions();
 	private isInitialized: boolean = false;
@@ -27,97 +51,204 @@ export class GraphView
 		return start + (end - start) * t2;
 	}
 
-	public async init(files: TFile[], options: MarkdownWebpageRendererAPIOptions)
+	public async init(files: TFile[], options: MarkdownWebpageRendererAPIOptions, website?: Website)
 	{
 		if (this.isInitialized) return;
 
 		Object.assign(this.graphOptions, options.graphViewOptions);
 
-		this.paths = files.map(f => f.path);
-		this.nodeCount = this.paths.length;
+		// attachments are linked like pages, tags are added after them
+		files = files.filter((file) => MarkdownRendererAPI.isConvertable(file.extension) || this.graphOptions.showAttachments);
+		this.nodeTypes = files.map((file) => MarkdownRendererAPI.isConvertable(file.extension) ? GraphNodeType.Page : GraphNodeType.Attachment);
+
+		this.nodeCount = files.length;
 		this.linkSources = [];
 		this.linkTargets = [];
-		this.labels = [];
 		this.radii = [];
 
-		let linkCounts: number[] = [];
+		// the titles only read the metadata cache, so they are looked up together
+		this.labels = (await Promise.all(files.map((file) => Website.getTitleAndIcon(file, true)))).map((titleInfo) => titleInfo.title);
 
-		for (let i = 0; i < this.nodeCount; i++)
-		{
-			linkCounts.push(0);
-		}
+		let linkCounts: number[] = new Array(this.nodeCount).fill(0);
+		let nodeIndices: Map<string, number> = new Map(files.map((file, i) => [file.path, i]));
+		let resolvedLinks = app.metadataCache.resolvedLinks;
 
-		let resolvedLinks = Object.entries(app.metadataCache.resolvedLinks);
-		let values = Array.from(resolvedLinks.values());
-		let sources = values.map(v => v[0]);
-		let targets = values.map(v => v[1]);
-
-		for (let source of this.paths)
+		files.forEach((file, sourceIndex) =>
 		{
-			let sourceIndex = sources.indexOf(source);
-			let file = files.find(f => f.path == source);
-			
-			if (file)
+			for (let targetPath of Object.keys(resolvedLinks[file.path] ?? {}))
 			{
-				let titleInfo = await Website.getTitleAndIcon(file, true);
-				this.labels.push(titleInfo.title);
+				let targetIndex = nodeIndices.get(targetPath);
+				if (targetIndex == undefined || targetIndex == sourceIndex) continue;
+
+				this.linkSources.push(sourceIndex);
+				this.linkTargets.push(targetIndex);
+
+				linkCounts[sourceIndex]++;
+				linkCounts[targetIndex]++;
 			}
+		});
+
+		let tagPaths = this.graphOptions.showTags ? this.addTags(files, linkCounts, website) : [];
+
+		let maxLinks = linkCounts.reduce((max, count) => Math.max(max, count), 0);
 
-			if (sourceIndex != -1)
+		this.radii = linkCounts.map(l => GraphView.InOutQuadBlend(this.graphOptions.minNodeRadius, this.graphOptions.maxNodeRadius, Math.min(l / (maxLinks * 0.8), 1.0)));
+		this.paths = files.map(f => website?.getExportPath(f).asString ?? new Path(f.path).setExtension(".html").makeUnixStyle().makeWebStyle(options.webStylePaths).asString);
+		this.paths.push(...tagPaths);
+
+		// tags keep the color of tags, like in obsidian
+		this.colorGroups = this.graphOptions.colorGroups ?? await GraphView.getVaultColorGroups();
+		this.nodeGroups = this.nodeTypes.map((type, i) => type == GraphNodeType.Tag ? -1 : this.colorGroups.findIndex((group) => GraphView.matchesQuery(group.query, files[i])));
+
+		this.linkCount = this.linkSources.length;
+
+		if (this.graphOptions.precomputeLayout)
+		{
+			// large graphs get fewer iterations, since each one takes longer
+			this.positions = await GraphLayout.compute(this.nodeCount, this.linkSources, this.linkTargets,
 			{
-				let target = targets[sourceIndex];
+				idealLength: this.graphOptions.linkLength + this.graphOptions.maxNodeRadius * 2,
+				gravity: this.graphOptions.centralForce / 3,
+				iterations: Math.round(Math.min(Math.max(300 * Math.sqrt(1000 / Math.max(this.nodeCount, 1)), 100), 300)),
+				isCancelled: () => MarkdownRendererAPI.checkCancelled(),
+			});
+		}
 
-				for (let link of Object.entries(target))
-				{
-					if (link[0] == source) continue;
-					if (this.paths.includes(link[0]))
-					{
-						let path1 = source;
-						let path2 = link[0];
+		this.isInitialized = true;
+	}
 
-						let index1 = this.paths.indexOf(path1);
-						let index2 = this.paths.indexOf(path2);
+	/**
+	 * Add a node for every tag of the pages, linked to the pages using it.
+	 * @returns The paths of the tag pages of the new nodes
+	 */
+	private addTags(files: TFile[], linkCounts: number[], website?: Website): string[]
+	{
+		let tagNodes: Map<string, number> = new Map(); // tags are case insensitive
+		let tagPaths: string[] = [];
 
-						if (index1 == -1 || index2 == -1) continue;
+		files.forEach((file, fileIndex) =>
+		{
+			if (this.nodeTypes[fileIndex] != GraphNodeType.Page) return;
 
-						this.linkSources.push(index1);
-						this.linkTargets.push(index2);
+			let cache = app.metadataCache.getFileCache(file);
+			let tags = cache ? (getAllTags(cache) ?? []) : [];
+			let linkedTags: Set<number> = new Set();
 
-						linkCounts[index1] = (linkCounts[index1] ?? 0) + 1;
-						linkCounts[index2] = (linkCounts[index2] ?? 0) + 1;
-					}
+			for (let tag of tags)
+			{
+				let key = tag.toLowerCase();
+				let tagIndex = tagNodes.get(key);
+				if (tagIndex == undefined)
+				{
+					tagIndex = this.nodeCount++;
+					tagNodes.set(key, tagIndex);
+
+					let tagPage = website?.getTagPage(tag);
+					tagPaths.push(tagPage && website ? website.getExportPath(tagPage.source).asString : "");
+					this.labels.push(tag);
+					this.nodeTypes.push(GraphNodeType.Tag);
+					linkCounts.push(0);
 				}
+
+				if (linkedTags.has(tagIndex)) continue;
+				linkedTags.add(tagIndex);
+
+				this.linkSources.push(fileIndex);
+				this.linkTargets.push(tagIndex);
+				linkCounts[fileIndex]++;
+				linkCounts[tagIndex]++;
 			}
+		});
+
+		return tagPaths;
+	}
+
+	/**
+	 * Get the color groups of the vault's graph view.
+	 */
+	public static async getVaultColorGroups(): Promise<GraphColorGroup[]>
+	{
+		let graphSettings = await Path.vaultPath.joinString(app.vault.configDir, "graph.json").readFileString();
+		if (!graphSettings) return [];
+
+		try
+		{
+			let groups: unknown = JSON.parse(graphSettings)?.colorGroups;
+			if (!Array.isArray(groups)) return [];
+
+			let isColorGroup = (group: unknown): group is VaultColorGroup =>
+			{
+				let { query, color } = (group ?? {}) as Partial<VaultColorGroup>;
+				return typeof query == "string" && typeof color?.rgb == "number";
+			};
+			return groups.filter(isColorGroup).map((group) => ({ query: group.query, color: group.color.rgb }));
+		}
+		catch (e)
+		{
+			ExportLog.warning(e, "Failed to parse the graph settings of the vault. The graph view has no color groups.");
+			return [];
 		}
+	}
 
-		let maxLinks = Math.max(...linkCounts);
+	/**
+	 * Check if a file matches a graph query, like "path:Projects tag:#active -file:draft".
+	 * Every term has to match, and terms without an operator are matched against the path of the file.
+	 */
+	public static matchesQuery(query: string, file: TFile): boolean
+	{
+		if (query.trim() == "") return false;
 
-		this.radii = linkCounts.map(l => GraphView.InOutQuadBlend(this.graphOptions.minNodeRadius, this.graphOptions.maxNodeRadius, Math.min(l / (maxLinks * 0.8), 1.0)));
-		this.paths = this.paths.map(p => new Path(p).setExtension(".html").makeUnixStyle().makeWebStyle(options.webStylePaths).asString);
+		let tags: string[] | undefined = undefined;
+		for (let [, negate, operator, quoted, word] of query.matchAll(/(-?)(?:(\w+):)?(?:"([^"]*)"|(\S+))/g))
+		{
+			let value = (quoted ?? word).toLowerCase();
+			let matches: boolean;
 
-		this.linkCount = this.linkSources.length;
+			switch (operator?.toLowerCase())
+			{
+				case "tag":
+				{
+					let cache = app.metadataCache.getFileCache(file);
+					tags ??= (cache ? (getAllTags(cache) ?? []) : []).map((tag) => tag.toLowerCase().replace(/^#/, ""));
+					value = value.replace(/^#/, "");
+					matches = tags.some((tag) => tag == value || tag.startsWith(value + "/"));
+					break;
+				}
+				case "file":
+					matches = file.name.toLowerCase().includes(value);
+					break;
+				default:
+					matches = file.path.toLowerCase().includes(value);
+					break;
+			}
 
-		this.isInitialized = true;
+			if (matches == (negate == "-")) return false;
+		}
+
+		return true;
 	}
 
-	public static generateGraphEl(container: HTMLElement): HTMLElement
+	public static generateGraphEl(container: HTMLElement, strings: SiteStrings = Translations.getBundledStrings("en")): HTMLElement
 	{
 		let graphWrapper = container.createDiv();
 		graphWrapper.classList.add("graph-view-wrapper");
 
 		let graphHeader = graphWrapper.createDiv();
 		graphHeader.addClass("sidebar-section-header");
-		graphHeader.innerText = "Interactive Graph";
+		graphHeader.innerText = strings.interactiveGraph;
 
 		let graphEl = graphWrapper.createDiv();
 		graphEl.className = "graph-view-placeholder";
 		graphEl.innerHTML = 
 		`
 		<div class="graph-view-container">
-			<div class="graph-icon graph-expand" role="button" aria-label="Expand" data-tooltip-position="top"><svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon"><line x1="7" y1="17" x2="17" y2="7"></line><polyline points="7 7 17 7 17 17"></polyline></svg></div>
+			<div class="graph-icon graph-local-toggle" role="button" data-tooltip-position="top"><svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon"><circle cx="12" cy="12" r="3"></circle><circle cx="4" cy="6" r="2"></circle><circle cx="20" cy="6" r="2"></circle><circle cx="12" cy="21" r="1.5"></circle><line x1="9.5" y1="10.5" x2="5.6" y2="7.1"></line><line x1="14.5" y1="10.5" x2="18.4" y2="7.1"></line><line x1="12" y1="15" x2="12" y2="19.5"></line></svg></div>
+			<div class="graph-icon graph-expand" role="button" data-tooltip-position="top"><svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon"><line x1="7" y1="17" x2="17" y2="7"></line><polyline points="7 7 17 7 17 17"></polyline></svg></div>
 			<canvas id="graph-canvas" class="hide" width="512px" height="512px"></canvas>
 		</div>
 		`
+		graphEl.querySelector(".graph-expand")?.setAttribute("aria-label", strings.expandGraph);
+		graphEl.querySelector(".graph-local-toggle")?.setAttribute("aria-label", strings.localGraph);
 		return graphWrapper;
 	}
 
@@ -6,6 +6,7 @@ export class Tree
 	public children: TreeItem[] = [];
 	public minCollapsableDepth: number = 1;
 	public title: string = "Tree";
+	public collapseAllLabel: string = "Collapse All";
 	public class: string = "mod-tree-none";
 	public showNestingIndicator = true;
 	public minDepth: number = 1; 
@@ -74,7 +75,7 @@ export class Tree
 		treeHeaderEl.classList.add("tree-header");
 		sectionHeaderEl.classList.add("sidebar-section-header");
 		collapseAllEl.classList.add("clickable-icon", "collapse-tree-button");
-		collapseAllEl.setAttribute("aria-label", "Collapse All");
+		collapseAllEl.setAttribute("aria-label", this.collapseAllLabel);
 		collapseAllEl.innerHTML = "<svg xmlns='http://www.w3.org/2000/svg' width='24' height='24' viewBox='0 0 24 24' fill='none' stroke='currentColor' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'></svg>";
 		treeScrollAreaEl.classList.add("tree-scroll-area", "tree-item-children", "nav-folder-children");
 		let invisFirst = treeScrollAreaEl.createDiv("tree-item mod-tree-folder nav-folder mod-collapsible is-collapsed"); // invisible first item
@@ -1,17 +1,38 @@
-import { FrontMatterCache, TFile } from "obsidian";
+import { FrontMatterCache, TFile, getLinkpath } from "obsidian";
 import { Path } from "scripts/utils/path";
 import { Downloadable } from "scripts/utils/downloadable";
 import { OutlineTree } from "./outline-tree";
 import { GraphView } from "./graph-view";
 import { Website } from "./website";
+import { Feed } from "./feed";
 import { AssetHandler } from "scripts/html-generation/asset-handler";
 import { HTMLGeneration } from "scripts/html-generation/html-generation-helpers";
 import { Utils } from "scripts/utils/utils";
 import { ExportLog } from "scripts/html-generation/render-log";
 import { MarkdownRendererAPI } from "scripts/render-api";
-import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { MarkdownRendererAPIOptions, MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { LinkHandling } from "scripts/settings/settings";
+import { SiteStrings, Translations } from "scripts/utils/translations";
 const { minify } = require('html-minifier-terser');
 
+export enum BrokenLinkKind
+{
+	NotExported = "not-exported",
+	Unresolved = "unresolved",
+}
+
+/**
+ * A link which does not lead to an exported page.
+ */
+export interface BrokenLink
+{
+	source: string; // the vault path of the file containing the link
+	line: number | undefined;
+	target: string;
+	kind: BrokenLinkKind;
+	handling: LinkHandling;
+}
+
 export class Webpage extends Downloadable
 {
 	/**
@@ -37,8 +58,18 @@ export class Webpage extends Downloadable
 
 	public viewType: string = "markdown";
 
+	/**
+	 * Markdown rendered after the content of the source file, used for generated content such as folder listings.
+	 */
+	public appendedMarkdown: string = "";
+
 	public isConvertable: boolean = false;
 
+	/**
+	 * The hash of the exported content, which is kept after the content is released.
+	 */
+	public outputHash: string = "";
+
 	public exportOptions: MarkdownWebpageRendererAPIOptions;
 
 	public title: string = "";
@@ -213,6 +244,23 @@ export class Webpage extends Downloadable
 		return frontmatter;
 	}
 
+	/**
+	 * The translated text of the site. Pages exported without a website use the bundled translations.
+	 */
+	get strings(): SiteStrings
+	{
+		return this.website?.strings ?? Translations.getBundledStrings(this.exportOptions.language);
+	}
+
+	/**
+	 * The language of the page, from its "lang" property or the language of the site.
+	 */
+	get language(): string
+	{
+		let lang = this.frontmatter["lang"];
+		return typeof lang == "string" && lang.trim() != "" ? lang.trim() : (this.exportOptions.language || "en");
+	}
+
 	public getCompatibilityContent(): string
 	{
 		let oldContent = this.sizerElement.outerHTML;
@@ -259,7 +307,7 @@ export class Webpage extends Downloadable
 
 	public async create(): Promise<Webpage | undefined>
 	{
-		this.titleInfo = await Website.getTitleAndIcon(this.source);
+		this.titleInfo = await this.getTitleInfo();
 		this.title = this.titleInfo.title;
 		this.icon = this.titleInfo.icon;
 
@@ -268,11 +316,15 @@ export class Webpage extends Downloadable
 		{
 			this.content = await new Path(this.source.path).readFileBuffer() ?? "";
 			this.modifiedTime = this.source.stat.mtime;
+			this.outputHash = Utils.hash(this.content);
 			return this;
 		}
 
 		if (!this.document) return this;
 
+		this.modifiedTime = this.source.stat.mtime;
+		this.document.documentElement.lang = this.language;
+
 		let webpageWithContent = await this.populateDocument();
 		if(!webpageWithContent)
 		{
@@ -298,7 +350,7 @@ export class Webpage extends Downloadable
 			// inject graph view
 			if (this.exportOptions.addGraphView)
 			{
-				GraphView.generateGraphEl(rightSidebar);
+				GraphView.generateGraphEl(rightSidebar, this.strings);
 			}
 
 			// inject outline
@@ -306,13 +358,20 @@ export class Webpage extends Downloadable
 			{
 				let headerTree = new OutlineTree(this, 1);
 				headerTree.class = "outline-tree";
-				headerTree.title = "Table Of Contents";
+				headerTree.title = this.strings.tableOfContents;
+				headerTree.collapseAllLabel = this.strings.collapseAll;
 				headerTree.showNestingIndicator = false;
 				headerTree.generateWithItemsClosed = this.exportOptions.startOutlineCollapsed === true;
 				headerTree.minCollapsableDepth = this.exportOptions.minOutlineCollapsibleLevel ?? 2;
 				await headerTree.generateTreeWithContainer(rightSidebar);
 			}
 
+			// inject backlinks
+			if (this.website && this.exportOptions.addBacklinks)
+			{
+				await this.addBacklinks(rightSidebar);
+			}
+
 			// inject darkmode toggle
 			if (this.exportOptions.addThemeToggle)
 			{
@@ -320,11 +379,11 @@ export class Webpage extends Downloadable
 			}
 
 			// inject search bar
-			// TODO: don't hardcode searchbar html
 			if (this.exportOptions.addSearch)
 			{
-				let searchbarHTML = `<div class="search-input-container"><input enterkeyhint="search" type="search" spellcheck="false" placeholder="Search..."><div class="search-input-clear-button" aria-label="Clear search"></div></div>`;
-				leftSidebar.createDiv().outerHTML = searchbarHTML;
+				let searchbarEl = leftSidebar.createDiv({ cls: "search-input-container" });
+				searchbarEl.createEl("input", { attr: { enterkeyhint: "search", type: "search", spellcheck: "false", placeholder: this.strings.searchPlaceholder } });
+				searchbarEl.createDiv({ cls: "search-input-clear-button", attr: { "aria-label": this.strings.clearSearch } });
 			}
 
 			// inject file tree
@@ -359,10 +418,43 @@ export class Webpage extends Downloadable
 		}
 
 		this.content = this.html;
+		this.outputHash = Utils.hash(this.content);
 
 		return this;
 	}
 
+	/**
+	 * Free the document and content of this page after it has been written, to keep memory usage low during large exports.
+	 * Anything which reads the document (search index, feeds) has to run before this.
+	 */
+	public release()
+	{
+		this.document = undefined;
+		this.content = "";
+	}
+
+	protected async getTitleInfo(): Promise<{title: string, icon: string, isDefaultTitle: boolean, isDefaultIcon: boolean}>
+	{
+		return await Website.getTitleAndIcon(this.source);
+	}
+
+	/**
+	 * Render the content of this page into options.container
+	 */
+	protected async renderContent(options: MarkdownRendererAPIOptions): Promise<{contentEl: HTMLElement, viewType: string} | undefined>
+	{
+		let renderInfo = await MarkdownRendererAPI.renderFile(this.source, options);
+		if (!renderInfo || !this.appendedMarkdown || renderInfo.viewType != "markdown") return renderInfo;
+
+		let appendedEl = await MarkdownRendererAPI.renderMarkdownToElement(this.appendedMarkdown, {...options, container: undefined});
+		let sizer = renderInfo.contentEl.querySelector(".markdown-preview-sizer") ?? renderInfo.contentEl;
+		let appendedSizer = appendedEl?.querySelector(".markdown-preview-sizer") ?? appendedEl;
+		if (appendedSizer) sizer.append(...Array.from(appendedSizer.childNodes));
+		appendedEl?.remove();
+
+		return renderInfo;
+	}
+
 	private async populateDocument(): Promise<Webpage | undefined>
 	{
 		if (!this.isConvertable || !this.document) return this;
@@ -372,7 +464,7 @@ export class Webpage extends Downloadable
 			body.setAttribute("class", Website.validBodyClasses || await HTMLGeneration.getValidBodyClasses(false));
 		
 		let options = {...this.exportOptions, container: body};
-		let renderInfo = await MarkdownRendererAPI.renderFile(this.source, options);
+		let renderInfo = await this.renderContent(options);
 		let contentEl = renderInfo?.contentEl;
 		this.viewType = renderInfo?.viewType ?? "markdown";
 
@@ -388,6 +480,9 @@ export class Webpage extends Downloadable
 
 		if(this.sizerElement) this.sizerElement.style.paddingBottom = "";
 
+		// embeds of excluded notes would put their content into this page
+		this.removeExcludedEmbeds();
+
 		// modify links to work outside of obsidian (including relative links)
 		if (this.exportOptions.fixLinks)
 			this.convertLinks();
@@ -608,6 +703,64 @@ export class Webpage extends Downloadable
 		this.sizerElement.prepend(titleEl);
 	}
 
+	/**
+	 * Add a "Linked mentions" section listing the exported notes which link to this page.
+	 */
+	private async addBacklinks(container: HTMLElement)
+	{
+		if (!this.website) return;
+
+		let backlinksEl = container.createDiv({ cls: "backlinks" });
+		backlinksEl.createDiv({ cls: "sidebar-section-header", text: this.strings.linkedMentions });
+		let listEl = backlinksEl.createDiv({ cls: "backlinks-list" });
+
+		let maxSnippets = 3;
+		let snippetRadius = 60;
+
+		for (let file of this.website.batchFiles)
+		{
+			if (file == this.source || !app.metadataCache.resolvedLinks[file.path]?.[this.source.path]) continue;
+
+			// find the lines around each link to this page
+			let links = app.metadataCache.getFileCache(file)?.links ?? [];
+			links = links.filter((link) => app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path) == this.source);
+
+			let content = links.length > 0 ? await app.vault.cachedRead(file) : "";
+			let snippets: string[] = [];
+			for (let link of links.slice(0, maxSnippets))
+			{
+				let start = link.position.start.offset;
+				let end = link.position.end.offset;
+				let lineStart = content.lastIndexOf("\n", start) + 1;
+				let lineEnd = content.indexOf("\n", end);
+				if (lineEnd == -1) lineEnd = content.length;
+
+				let before = content.substring(Math.max(lineStart, start - snippetRadius), start);
+				let after = content.substring(end, Math.min(lineEnd, end + snippetRadius));
+				let snippet = (before + (link.displayText ?? link.link) + after).replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, "$1").trim();
+				if (start - snippetRadius > lineStart) snippet = "…" + snippet;
+				if (end + snippetRadius < lineEnd) snippet = snippet + "…";
+
+				snippets.push(snippet);
+			}
+
+			let title = (await Website.getTitleAndIcon(file, true)).title;
+			let itemEl = listEl.createDiv({ cls: "backlink-item" });
+			let linkEl = itemEl.createEl("a", { cls: "internal-link backlink-title", text: title });
+			linkEl.setAttribute("href", this.website.getExportPath(file).asString);
+
+			for (let snippet of snippets)
+			{
+				itemEl.createDiv({ cls: "backlink-snippet", text: snippet });
+			}
+		}
+
+		if (listEl.childElementCount == 0)
+		{
+			listEl.createDiv({ cls: "backlinks-empty", text: this.strings.noBacklinks });
+		}
+	}
+
 	private async addHead()
 	{
 		if (!this.document) return;
@@ -635,10 +788,13 @@ export class Webpage extends Downloadable
 			head += `<meta name="author" content="${this.author}">`;
 		}
 
-		if (this.exportOptions.addRSS)
+		for (let feed of this.website?.getFeedsForFile(this.source) ?? [])
 		{
-			let rssURL = Path.joinStrings(this.exportOptions.siteURL ?? "", this.website?.rssPath ?? "").makeUnixStyle().asString;
-			head += `<link rel="alternate" type="application/rss+xml" title="RSS Feed" href="${rssURL}">`;
+			for (let format of Feed.getEnabledFormats(this.exportOptions))
+			{
+				let info = Feed.formatInfo[format];
+				head += `<link rel="alternate" type="${info.mimeType}" title="${feed.getLinkTitle(format)}" href="${feed.getURL(format)}">`;
+			}
 		}
 
 		head += AssetHandler.getHeadReferences(this.exportOptions);
@@ -666,18 +822,45 @@ export class Webpage extends Downloadable
 				let targetHeader = href.split("#").length > 1 ? "#" + href.split("#")[1] : "";
 				let target = href.split("#")[0];
 
+				// the links of folder listings already point to the exported index page of the folder
+				if (this.website?.isFolderPageHref(linkEl.getAttribute("data-href") ?? target)) return;
+
 				let targetFile = app.metadataCache.getFirstLinkpathDest(target, this.source.path);
-				if (!targetFile) return;
+				if (!targetFile)
+				{
+					this.handleBrokenLink(linkEl, BrokenLinkKind.Unresolved, target);
+					return;
+				}
 
-				let targetPath = new Path(targetFile.path);
-				if (MarkdownRendererAPI.isConvertable(targetPath.extensionName)) targetPath.setExtension("html");
-				targetPath.makeWebStyle(this.exportOptions.webStylePaths);
+				// links to files which are not part of the export would lead nowhere
+				if (this.website && !this.website.isFileExported(targetFile))
+				{
+					this.handleBrokenLink(linkEl, BrokenLinkKind.NotExported, target);
+					return;
+				}
+
+				let targetPath = this.website?.getExportPath(targetFile);
+				if (!targetPath)
+				{
+					targetPath = new Path(targetFile.path);
+					if (MarkdownRendererAPI.isConvertable(targetPath.extensionName)) targetPath.setExtension("html");
+					targetPath.makeWebStyle(this.exportOptions.webStylePaths);
+				}
 
 				let finalHref = targetPath.makeUnixStyle() + targetHeader.replaceAll(" ", "_");
 				linkEl.setAttribute("href", finalHref);
 			}
 		});
 
+		// point tags to their generated tag page
+		this.document.querySelectorAll("a.tag").forEach((tagEl) =>
+		{
+			let tagPage = this.website?.getTagPage(tagEl.getAttribute("href") ?? tagEl.textContent ?? "");
+			if (!tagPage) return;
+
+			tagEl.setAttribute("href", tagPage.relativePath.copy.makeUnixStyle().asString);
+		});
+
 		this.document.querySelectorAll("a.footnote-link").forEach((linkEl) =>
 		{
 			linkEl.setAttribute("target", "_self");
@@ -690,6 +873,62 @@ export class Webpage extends Downloadable
 		});
 	}
 
+	/**
+	 * Replace embeds of excluded files with the link text, handled like a link to a file which is not exported.
+	 */
+	private removeExcludedEmbeds()
+	{
+		if (!this.website || !this.document || this.website.excludedFiles.length == 0) return;
+
+		this.document.querySelectorAll(".internal-embed[src]").forEach((embedEl) =>
+		{
+			if (!embedEl.isConnected) return; // inside an embed which was already removed
+
+			let linktext = embedEl.getAttribute("src") ?? "";
+			let target = linktext.split("#")[0];
+			let targetFile = app.metadataCache.getFirstLinkpathDest(target, this.source.path);
+			if (!targetFile || !this.website?.excludedFiles.includes(targetFile)) return;
+
+			let placeholderEl = this.document?.createElement("span");
+			if (!placeholderEl) return;
+			placeholderEl.setAttribute("data-href", linktext);
+			placeholderEl.textContent = embedEl.getAttribute("alt") || linktext;
+			embedEl.replaceWith(placeholderEl);
+
+			this.handleBrokenLink(placeholderEl, BrokenLinkKind.NotExported, target);
+		});
+	}
+
+	/**
+	 * Record a link which does not lead to an exported page, and replace it based on the export options.
+	 */
+	private handleBrokenLink(linkEl: Element, kind: BrokenLinkKind, target: string)
+	{
+		if (!this.website || !this.document) return;
+
+		let handling = (kind == BrokenLinkKind.Unresolved ? this.exportOptions.unresolvedLinks : this.exportOptions.notExportedLinks) ?? LinkHandling.Keep;
+		let linktext = linkEl.getAttribute("data-href") ?? target;
+
+		// find the line of the link in the source file for the report
+		let cache = app.metadataCache.getFileCache(this.source);
+		let linkCache = [...(cache?.links ?? []), ...(cache?.embeds ?? [])].find((link) => link.link == linktext);
+		let line = linkCache ? linkCache.position.start.line + 1 : undefined;
+
+		this.website.brokenLinks.push({ source: this.source.path, line: line, target: linktext, kind: kind, handling: handling });
+
+		if (handling == LinkHandling.Keep || handling == LinkHandling.Fail) return;
+
+		let textEl = this.document.createElement("span");
+		textEl.innerHTML = linkEl.innerHTML;
+		if (handling == LinkHandling.Missing)
+		{
+			textEl.classList.add("missing-link");
+			textEl.setAttribute("aria-label", Translations.format(kind == BrokenLinkKind.Unresolved ? this.strings.missingLink : this.strings.unpublishedLink, { link: linktext }));
+		}
+
+		linkEl.replaceWith(textEl);
+	}
+
 	private async inlineMedia()
 	{
 		if (!this.document) return;
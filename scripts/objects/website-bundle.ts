@@ -0,0 +1,141 @@
+import { Website } from "./website";
+import { Webpage } from "./webpage";
+import { Path } from "scripts/utils/path";
+import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { ExportTarget } from "scripts/settings/settings";
+const mime = require('mime');
+
+/**
+ * The data embedded in a bundle, which the client reads its pages from instead of fetching them.
+ */
+interface BundledPages
+{
+	entry: string; // the path of the page shown when no page is given in the url hash
+	searchIndex?: string;
+	pages: {[path: string]: { html?: string, dataURL?: string }};
+}
+
+/**
+ * A whole website in one html file.
+ * Every page, the search index, the file tree and all assets are embedded, and the client routes between pages by the url hash,
+ * so the file also works offline from file://.
+ */
+export class WebsiteBundle
+{
+	public website: Website;
+	public entryPage: Webpage;
+
+	/** The id of the script element holding the bundled pages */
+	public static dataElementId: string = "bundled-pages";
+
+	/**
+	 * The pages must still have their documents, so the website has to be created without saving files.
+	 */
+	constructor(website: Website)
+	{
+		this.website = website;
+
+		let pages = website.webpages.filter((page) => page.isConvertable && page.document);
+		if (pages.length == 0) throw new Error("There are no pages to bundle");
+
+		this.entryPage = pages.find((page) => page.relativePath.copy.makeUnixStyle().asString == "index.html") ?? pages[0];
+	}
+
+	/**
+	 * Get the options used to render the pages of a bundle.
+	 * Everything is inlined, and features which need separate files (graph view, feeds, sitemap) are left out.
+	 */
+	public static getExportOptions(options?: MarkdownWebpageRendererAPIOptions): MarkdownWebpageRendererAPIOptions
+	{
+		return Object.assign(new MarkdownWebpageRendererAPIOptions(), options,
+		{
+			addHeadTag: true,
+			addGraphView: false,
+			addRSS: false,
+			addAtomFeed: false,
+			addJSONFeed: false,
+			scopedFeeds: [],
+			addSitemap: false,
+			addRobotsTxt: false,
+			includeJS: true,
+			includeCSS: true,
+			inlineMedia: true,
+			inlineCSS: true,
+			inlineJS: true,
+			inlineHTML: true,
+			inlineFonts: true,
+			offlineResources: true,
+			flattenExportPaths: false,
+			exportTarget: ExportTarget.Folder,
+		});
+	}
+
+	/**
+	 * Write the bundle to an html file, replacing it if it exists.
+	 */
+	public async write(bundlePath: Path)
+	{
+		let data: BundledPages =
+		{
+			entry: this.entryPage.relativePath.copy.makeUnixStyle().asString,
+			searchIndex: this.website.exportOptions.addSearch && this.website.index.index ? JSON.stringify(this.website.index.index) : undefined,
+			pages: {},
+		};
+
+		for (let page of this.website.webpages)
+		{
+			let path = page.relativePath.copy.makeUnixStyle().asString;
+			if (page.isConvertable)
+			{
+				if (page.document) data.pages[path] = { html: WebsiteBundle.getPageHTML(page) };
+				continue;
+			}
+
+			// attachments are opened in the page, so they are embedded as data urls
+			let content = page.content instanceof Buffer ? page.content : Buffer.from(page.content);
+			let type = mime.getType(path) ?? "application/octet-stream";
+			data.pages[path] = { dataURL: `data:${type};base64,${content.toString("base64")}` };
+		}
+
+		// the search results read the sections of the pages like any other file
+		for (let file of this.website.index.sectionFiles)
+		{
+			let path = file.relativePath.copy.makeUnixStyle().asString;
+			let content = file.content instanceof Buffer ? file.content : Buffer.from(file.content);
+			data.pages[path] = { dataURL: `data:application/json;base64,${content.toString("base64")}` };
+		}
+
+		let entryDocument = this.entryPage.document;
+		if (!entryDocument) throw new Error("The entry page has no document");
+
+		// the entry page is the shell which the other pages are loaded into
+		let dataEl = entryDocument.createElement("script");
+		dataEl.setAttribute("type", "application/json");
+		dataEl.id = WebsiteBundle.dataElementId;
+		// escape "<" so the data can't close the script element
+		dataEl.textContent = JSON.stringify(data).replace(/</g, "\\u003c");
+		entryDocument.body.appendChild(dataEl);
+
+		let html = this.entryPage.html;
+		dataEl.remove();
+
+		await bundlePath.writeFile(html);
+	}
+
+	/**
+	 * Get the parts of a page which the client copies when it loads the page.
+	 */
+	private static getPageHTML(page: Webpage): string
+	{
+		let document = page.document;
+		if (!document) return "";
+
+		let parts = [document.querySelector("title")?.outerHTML ?? ""];
+		for (let selector of [".document-container", ".outline-tree", ".backlinks"])
+		{
+			parts.push(document.querySelector(selector)?.outerHTML ?? "");
+		}
+
+		return parts.join("");
+	}
+}
@@ -1,14 +1,38 @@
 import { Asset, AssetType, InlinePolicy, Mutability } from "scripts/html-generation/assets/asset";
 import { Website } from "./website";
-import Minisearch from 'minisearch';
+import { Webpage } from "./webpage";
+import Minisearch, { AsPlainObject } from 'minisearch';
 import { ExportLog } from "scripts/html-generation/render-log";
 import { Path } from "scripts/utils/path";
 import { ExportPreset, Settings, SettingsPage } from "scripts/settings/settings";
 import HTMLExportPlugin from "scripts/main";
-import { TFile } from "obsidian";
+import { TFile, getLinkpath } from "obsidian";
 import { AssetHandler } from "scripts/html-generation/asset-handler";
 import { MarkdownRendererAPI } from "scripts/render-api";
 import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+import { Feed } from "./feed";
+import { Utils } from "scripts/utils/utils";
+import { Downloadable } from "scripts/utils/downloadable";
+import { SearchLanguage } from "scripts/utils/search-language";
+import { ContentDocument, ContentManifest } from "./content-document";
+
+/**
+ * The text of a page between two headings, used to show where in the page a search result matches.
+ */
+export interface SearchSection
+{
+	heading: string; // the text of the heading, or empty for the text before the first heading
+	id: string; // the id of the heading element
+	text: string;
+}
+
+/**
+ * A page or file in the search index, with the values of its fields.
+ */
+export interface SearchDocument
+{
+	[field: string]: string | string[];
+}
 
 export class WebsiteIndex
 {
@@ -23,6 +47,7 @@ export class WebsiteIndex
 		validBodyClasses: string,
 		useCustomHeadContent: boolean,
 		useCustomFavicon: boolean,
+		siteStringsHash: string,
 		mainDependencies: string[],
 		files: string[],
 		fileInfo: 
@@ -31,20 +56,61 @@ export class WebsiteIndex
 			{
 				modifiedTime: number,
 				sourceSize: number,
+				sourceHash?: string,
+				outputHash?: string,
 				exportedPath: string,
-				dependencies: string[]
+				dependencies: string[],
+				noteDependencies?: {[path: string]: string}
 			}
 		}
 	} | undefined = undefined;
 	public index: Minisearch<any> | undefined = undefined;
-	private stopWords = ["a", "about", "actually", "almost", "also", "although", "always", "am", "an", "and", "any", "are", "as", "at", "be", "became", "become", "but", "by", "can", "could", "did", "do", "does", "each", "either", "else", "for", "from", "had", "has", "have", "hence", "how", "i", "if", "in", "is", "it", "its", "just", "may", "maybe", "me", "might", "mine", "must", "my", "mine", "must", "my", "neither", "nor", "not", "of", "oh", "ok", "when", "where", "whereas", "wherever", "whenever", "whether", "which", "while", "who", "whom", "whoever", "whose", "why", "will", "with", "within", "without", "would", "yes", "yet", "you", "your"];
-	private indexOptions = 
+	private indexLanguage: string = "none"; // the language of the document being added to the index
+	private processTerm = (term:any, _fieldName:any) =>
+		SearchLanguage.processTerm(term, this.indexLanguage);
+	private get indexOptions()
+	{
+		return {
+			idField: 'path',
+			fields: ['path', 'title', 'content', 'tags', 'headers', ...this.propertyFields],
+			storeFields: ['path', 'title', 'tags', 'headers', 'lang'],
+			processTerm: this.processTerm
+		};
+	}
+	private titleIndexOptions =
 	{
 		idField: 'path',
-		fields: ['path', 'title', 'content', 'tags', 'headers'],
-		storeFields: ['path', 'title', 'tags', 'headers'],
-		processTerm: (term:any, _fieldName:any) =>
-			this.stopWords.includes(term) ? null : term.toLowerCase()
+		fields: ['path', 'title', 'tags'],
+		storeFields: ['path', 'title', 'tags', 'lang'],
+		processTerm: this.processTerm
+	}
+
+	/**
+	 * The language of the pages without a "lang" property.
+	 */
+	private get defaultLanguage(): string
+	{
+		return SearchLanguage.getLanguage(this.web.exportOptions.searchLanguage) ?? "none";
+	}
+
+	/**
+	 * The frontmatter properties in searchProperties are indexed as fields named "property:[name]".
+	 */
+	private get propertyFields(): string[]
+	{
+		return (this.web.exportOptions.searchProperties ?? []).map((property) => "property:" + property);
+	}
+
+	/**
+	 * The search index is split into files in lib/search/ so the website only downloads the parts a query needs:
+	 * - titles.json is always loaded, and holds a small index of the titles, tags and paths, the keys of the shards, the searchable properties and the default language.
+	 * - documents.json holds the documents and stored fields of the full index, without any terms.
+	 * - shard-[key].json holds the terms of the full index which start with the character of its key.
+	 * - sections/ holds the sections of each page, at the path of the page with a .json extension.
+	 */
+	public static get searchPath(): Path
+	{
+		return AssetHandler.libraryPath.joinString("search");
 	}
 	// public exportOptions: MarkdownWebpageRendererAPIOptions = new MarkdownWebpageRendererAPIOptions();
 	
@@ -52,6 +118,10 @@ export class WebsiteIndex
 	public removedFiles: string[] = []; // old files that are no longer being exported
 	public addedFiles: string[] = []; // new files that are being exported
 	private keptDependencies: string[] = []; // dependencies that are being kept
+	private sourceHashes: Map<string, string> = new Map(); // vault path -> hash of the source content
+	private outputHashes: Map<string, string> | undefined = undefined; // exported path -> hash of the previous output
+	private backlinkSources: Map<string, string[]> | undefined = undefined; // vault path -> exported files linking to it
+	public sectionFiles: Downloadable[] = []; // the search sections of the pages created in this export
 
 	constructor(website: Website)
 	{
@@ -76,7 +146,7 @@ export class WebsiteIndex
 		let result = true;
 
 		if (!Settings.onlyExportModified) result = false;
-		if (Settings.exportPreset != ExportPreset.Website) result = false;
+		if (this.web.exportPreset != ExportPreset.Website && this.web.exportPreset != ExportPreset.ContentAPI) result = false;
 
 		if (this.isVersionChanged() && this.previousMetadata)
 		{
@@ -96,10 +166,29 @@ export class WebsiteIndex
 			result = false;
 		}
 
-		let rssAbsoultePath = this.web.destination.joinString(this.web.rssPath);
-		if (!rssAbsoultePath.exists && this.web.exportOptions.addRSS)
+		let formats = Feed.getEnabledFormats(this.web.exportOptions);
+		let missingFeed = this.web.feeds.find((feed) => formats.some((format) => !this.web.destination.joinString(feed.getPath(format)).exists));
+		if (missingFeed)
+		{
+			if (printWarning) ExportLog.warning(`No existing feed found for ${missingFeed.title}. All files will be exported.`);
+			result = false;
+		}
+
+		if (this.web.exportOptions.addSitemap && !this.web.destination.joinString(this.web.sitemapPath).exists)
+		{
+			if (printWarning) ExportLog.warning("No existing sitemap found. All files will be exported.");
+			result = false;
+		}
+
+		if (this.web.exportOptions.addRobotsTxt && !this.web.destination.joinString(this.web.robotsTxtPath).exists)
 		{
-			if (printWarning) ExportLog.warning("No existing RSS feed found. All files will be exported.");
+			if (printWarning) ExportLog.warning("No existing robots.txt found. All files will be exported.");
+			result = false;
+		}
+
+		if (this.web.exportOptions.addContentJSON && !this.web.destination.joinString(ContentManifest.path).exists)
+		{
+			if (printWarning) ExportLog.warning("No existing content manifest found. All files will be exported.");
 			result = false;
 		}
 
@@ -110,6 +199,13 @@ export class WebsiteIndex
 			result = false;
 		}
 
+		let siteStringsChanged = this.previousMetadata && this.previousMetadata.siteStringsHash != this.siteStringsHash;
+		if (siteStringsChanged)
+		{
+			if (printWarning) ExportLog.warning("Site language or translations changed. All files will be re-exported.");
+			result = false;
+		}
+
 		let customFaviconChanged = this.previousMetadata && (this.previousMetadata?.useCustomFavicon != (Settings.faviconPath != ""));
 		if (customFaviconChanged)
 		{
@@ -120,6 +216,14 @@ export class WebsiteIndex
 		return result;
 	}
 
+	/**
+	 * A hash of the site language and its translated text, which are part of every page.
+	 */
+	private get siteStringsHash(): string
+	{
+		return Utils.hash(JSON.stringify({ language: this.web.exportOptions.language, strings: this.web.strings }));
+	}
+
 	private async getExportMetadata(): Promise<any>
 	{
 		try
@@ -143,103 +247,198 @@ export class WebsiteIndex
 		try
 		{
 			// load current index or create a new one if it doesn't exist
-			let indexPath = this.web.destination.join(AssetHandler.libraryPath).joinString("search-index.json");
-			let indexJson = await indexPath.readFileString();
-			if (indexJson)
+			let searchPath = this.web.destination.join(WebsiteIndex.searchPath);
+			let titlesJson = await searchPath.joinString("titles.json").readFileString();
+			let documentsJson = await searchPath.joinString("documents.json").readFileString();
+			if (titlesJson && documentsJson)
 			{
-				index = Minisearch.loadJSON(indexJson, this.indexOptions);
+				// the terms of the index were processed for another language
+				let titles = JSON.parse(titlesJson);
+				if (titles.language != this.defaultLanguage)
+				{
+					ExportLog.log("Search language changed. Creating new index.");
+					return undefined;
+				}
+
+				let indexJs: AsPlainObject = JSON.parse(documentsJson);
+				indexJs.index = [];
+				for (let key of titles.shards as string[])
+				{
+					let shardJson = await searchPath.joinString(`shard-${key}.json`).readFileString();
+					if (!shardJson) throw new Error(`Missing search index shard ${key}`);
+					indexJs.index.push(...JSON.parse(shardJson));
+				}
+
+				// documents can't be added to an index with other fields, so the pages have to be indexed again
+				let fields = Object.keys(indexJs.fieldIds);
+				let indexFields = this.indexOptions.fields;
+				if (fields.length != indexFields.length || indexFields.some((field) => !fields.includes(field)))
+				{
+					ExportLog.log("Searchable properties changed. Creating new index.");
+					return undefined;
+				}
+
+				index = Minisearch.loadJS(indexJs, this.indexOptions);
 			}
 		}
 		catch (e)
 		{
-			ExportLog.warning(e, "Failed to load search-index.json. Creating new index.");
+			ExportLog.warning(e, "Failed to load the search index. Creating new index.");
 			index = undefined;
 		}
 
 		return index;
 	}
 
-	public async createIndex(): Promise<Asset | undefined>
+	/**
+	 * Add a created page to the search index, and add the file with its search sections to the page's dependencies.
+	 * This reads the page's document, so it has to be called before the document is released.
+	 */
+	public indexPage(webpage: Webpage)
 	{
+		if (!webpage.document || !webpage.isConvertable) return;
+
 		if (!this.index)
 		{
 			this.index = new Minisearch(this.indexOptions);
 		}
 
-		function preprocessContent(contentElement: HTMLElement): string 
+		const contentElement = WebsiteIndex.getIndexableElement(webpage.viewElement);
+		const content = WebsiteIndex.getIndexableContent(contentElement);
+		if (!content)
 		{
-			function getTextNodes(element: HTMLElement): Node[]
-			{
-				const textNodes = [];
-				const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, null);
-		
-				let node;
-				while (node = walker.nextNode()) {
-					textNodes.push(node);
-				}
-		
-				return textNodes;
-			}
+			console.warn(`No indexable content found for ${webpage.source.basename}`);
+			return;
+		}
+
+		const webpagePath = webpage.relativePath.copy.makeUnixStyle().asString;
+		if (this.index.has(webpagePath)) 
+		{
+			this.index.discard(webpagePath);
+		}
 
-			contentElement.querySelectorAll(".math, svg, img, .frontmatter, .metadata-container, .heading-after, style, script").forEach((el) => el.remove());
+		this.indexLanguage = SearchLanguage.getLanguage(webpage.frontmatter["lang"]) ?? this.defaultLanguage;
+		let indexedDocument: SearchDocument = {
+			path: webpagePath,
+			lang: this.indexLanguage,
+			title: webpage.title,
+			content: content,
+			tags: webpage.tags,
+			headers: webpage.headings.map((header) => header.heading),
+		};
+
+		for (let property of this.web.exportOptions.searchProperties ?? [])
+		{
+			indexedDocument["property:" + property] = WebsiteIndex.getPropertyText(webpage.frontmatter[property]);
+		}
 
-			const textNodes = getTextNodes(contentElement);
+		this.index.add(indexedDocument);
 
-			let content = '';
-			for (const node of textNodes) 
-			{
-				content += ' ' + node.textContent + ' ';
-			}
+		const sectionsFilename = new Path(webpage.filename).setExtension("json").fullName;
+		const sectionsFile = new Downloadable(sectionsFilename, JSON.stringify(WebsiteIndex.getSections(contentElement)), WebsiteIndex.searchPath.joinString("sections").join(webpage.relativeDirectory));
+		sectionsFile.modifiedTime = webpage.source.stat.mtime;
+		webpage.dependencies.push(sectionsFile);
+		this.sectionFiles.push(sectionsFile);
+	}
+
+	/**
+	 * Get the searchable text of a frontmatter value. Lists and objects are flattened into their values.
+	 */
+	private static getPropertyText(value: unknown): string
+	{
+		if (value == undefined) return "";
+		if (Array.isArray(value)) return value.map((item) => WebsiteIndex.getPropertyText(item)).join(" ");
+		if (typeof value == "object") return Object.values(value).map((item) => WebsiteIndex.getPropertyText(item)).join(" ");
+		return String(value);
+	}
+
+	/**
+	 * Get a copy of the content of a page without the elements which have no searchable text.
+	 */
+	private static getIndexableElement(viewElement: HTMLElement): HTMLElement
+	{
+		// work on a copy so the exported page keeps its math, images and scripts
+		const contentElement = viewElement.cloneNode(true) as HTMLElement;
+		contentElement.querySelectorAll(".math, svg, img, .frontmatter, .metadata-container, .heading-after, style, script").forEach((el) => el.remove());
+		return contentElement;
+	}
 
-			content = content.trim().replace(/\s+/g, ' ');
+	/**
+	 * Split the text of a page into sections at its headings.
+	 */
+	private static getSections(contentElement: HTMLElement): SearchSection[]
+	{
+		const sections: SearchSection[] = [{ heading: "", id: "", text: "" }];
+		let headingElement: HTMLElement | undefined = undefined;
 
-			return content;
+		const walker = document.createTreeWalker(contentElement, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, null);
+		let node;
+		while ((node = walker.nextNode()) != null)
+		{
+			if (node.nodeType == Node.ELEMENT_NODE && /^H[1-6]$/.test((node as HTMLElement).tagName))
+			{
+				headingElement = node as HTMLElement;
+				sections.push({ heading: (headingElement.textContent ?? "").trim(), id: headingElement.id, text: "" });
+			}
+			else if (node.nodeType == Node.TEXT_NODE && !headingElement?.contains(node))
+			{
+				sections[sections.length - 1].text += ' ' + node.textContent + ' ';
+			}
 		}
 
-		const htmlWebpages = this.web.webpages.filter(webpage => webpage.document && webpage.viewElement);
+		sections.forEach((section) => section.text = section.text.trim().replace(/\s+/g, ' '));
+		return sections.filter((section) => section.heading != "" || section.text != "");
+	}
 
-		// progress counters
-		let progressCount = 0;
-		let totalCount = htmlWebpages.length + this.web.dependencies.length + this.removedFiles.length;
+	private static getIndexableContent(contentElement: HTMLElement): string 
+	{
+		function getTextNodes(element: HTMLElement): Node[]
+		{
+			const textNodes = [];
+			const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, null);
+	
+			let node;
+			while (node = walker.nextNode()) {
+				textNodes.push(node);
+			}
+	
+			return textNodes;
+		}
 
+		const textNodes = getTextNodes(contentElement);
 
-		for (const webpage of htmlWebpages) 
+		let content = '';
+		for (const node of textNodes) 
 		{
-			if(MarkdownRendererAPI.checkCancelled()) return undefined;
-			ExportLog.progress(progressCount, totalCount, "Indexing", "Adding: " + webpage.relativePath.asString, "var(--color-blue)");
+			content += ' ' + node.textContent + ' ';
+		}
 
-			const content = preprocessContent(webpage.viewElement);
+		content = content.trim().replace(/\s+/g, ' ');
 
-			if (content) 
-			{
-				const webpagePath = webpage.relativePath.copy.makeUnixStyle().asString;
-				if (this.index.has(webpagePath)) 
-				{
-					this.index.discard(webpagePath);
-				}
+		return content;
+	}
 
-				this.index.add({
-					path: webpagePath,
-					title: webpage.title,
-					content: content,
-					tags: webpage.tags,
-					headers: webpage.headings.map((header) => header.heading),
-				});
-			}
-			else
-			{
-				console.warn(`No indexable content found for ${webpage.source.basename}`);
-			}
-			progressCount++;
+	public async createIndex(): Promise<Downloadable[] | undefined>
+	{
+		if (!this.index)
+		{
+			this.index = new Minisearch(this.indexOptions);
 		}
 
+		// pages are indexed as they are created, see indexPage()
+
+		// progress counters
+		let progressCount = 0;
+		let totalCount = this.web.dependencies.length + this.removedFiles.length;
+
 		// add other files to search
+		this.indexLanguage = this.defaultLanguage;
 		for (const file of this.web.dependencies)
 		{
 			if(MarkdownRendererAPI.checkCancelled()) return undefined;
 			
 			const filePath = file.relativePath.asString;
-			if (this.index.has(filePath)) 
+			if (this.index.has(filePath) || this.sectionFiles.includes(file) || file instanceof ContentDocument)
 			{
 				continue;
 			}
@@ -248,6 +447,7 @@ export class WebsiteIndex
 			
 			this.index.add({
 				path: filePath,
+				lang: this.indexLanguage,
 				title: file.relativePath.basename,
 				content: "",
 				tags: [],
@@ -272,7 +472,57 @@ export class WebsiteIndex
 		ExportLog.progress(totalCount, totalCount, "Indexing", "Cleanup index", "var(--color-blue)");
 		this.index.vacuum();
 
-		return new Asset("search-index.json", JSON.stringify(this.index), AssetType.Other, InlinePolicy.Download, false, Mutability.Temporary);
+		return this.splitIndex(this.index);
+	}
+
+	/**
+	 * Split an index into the title index, the documents and the term shards, see searchPath.
+	 */
+	private splitIndex(index: Minisearch<SearchDocument>): Downloadable[]
+	{
+		let { index: terms, ...documents } = index.toJSON();
+
+		let shards = new Map<string, AsPlainObject["index"]>();
+		for (let entry of terms)
+		{
+			let key = WebsiteIndex.getShardKey(entry[0]);
+			let shard = shards.get(key) ?? [];
+			shard.push(entry);
+			shards.set(key, shard);
+		}
+
+		let titleIndex = new Minisearch(this.titleIndexOptions);
+		for (let storedFields of Object.values(documents.storedFields))
+		{
+			this.indexLanguage = storedFields.lang ?? this.defaultLanguage;
+			titleIndex.add(storedFields);
+		}
+
+		let files = 
+		[
+			new Downloadable("titles.json", JSON.stringify({ index: titleIndex, shards: Array.from(shards.keys()).sort(), properties: this.web.exportOptions.searchProperties ?? [], language: this.defaultLanguage }), WebsiteIndex.searchPath),
+			new Downloadable("documents.json", JSON.stringify(documents), WebsiteIndex.searchPath),
+		];
+
+		for (let [key, shard] of shards)
+		{
+			files.push(new Downloadable(`shard-${key}.json`, JSON.stringify(shard), WebsiteIndex.searchPath));
+		}
+
+		files.forEach((file) => file.modifiedTime = this.exportTime);
+		return files;
+	}
+
+	/**
+	 * Get the key of the shard which a term is stored in.
+	 * Letters and digits each have their own shard, and other characters are grouped by blocks of 256 code points.
+	 * This has to match getSearchShardKey() in website.txt.js.
+	 */
+	public static getShardKey(term: string): string
+	{
+		let char = term.charAt(0);
+		if (/[a-z0-9]/.test(char)) return char;
+		return "u" + ((term.codePointAt(0) ?? 0) >> 8).toString(16);
 	}
 
 	public async createMetadata(options: MarkdownWebpageRendererAPIOptions): Promise<Asset | undefined>
@@ -286,6 +536,7 @@ export class WebsiteIndex
 		metadata.validBodyClasses = Website.validBodyClasses;
 		metadata.useCustomHeadContent = Settings.customHeadContentPath != "";
 		metadata.useCustomFavicon = Settings.faviconPath != "";
+		metadata.siteStringsHash = this.siteStringsHash;
 		metadata.files = this.allFiles;
 		metadata.mainDependencies = AssetHandler.getDownloads(options).map((asset) => asset.relativePath.copy.makeUnixStyle().asString);
 		if (!metadata.fileInfo) metadata.fileInfo = {};
@@ -302,8 +553,11 @@ export class WebsiteIndex
 			let fileInfo: any = {};
 			fileInfo.modifiedTime = this.exportTime;
 			fileInfo.sourceSize = page.source.stat.size;
+			fileInfo.sourceHash = await this.getSourceHash(page.source);
+			fileInfo.outputHash = page.outputHash;
 			fileInfo.exportedPath = page.relativePath.copy.makeUnixStyle().asString;
 			fileInfo.dependencies = page.dependencies.map((asset) => asset.relativePath.copy.makeUnixStyle().asString);
+			fileInfo.noteDependencies = await this.getNoteDependencyHashes(page.source);
 			
 			let exportPath = new Path(page.source.path).makeUnixStyle().asString;
 			metadata.fileInfo[exportPath] = fileInfo;
@@ -318,6 +572,8 @@ export class WebsiteIndex
 			let fileInfo: any = {};
 			fileInfo.modifiedTime = this.exportTime;
 			fileInfo.sourceSize = file.content.length;
+			fileInfo.sourceHash = Utils.hash(file.content);
+			fileInfo.outputHash = fileInfo.sourceHash;
 			fileInfo.exportedPath = file.relativePath.copy.makeUnixStyle().asString;
 			fileInfo.dependencies = [];
 
@@ -348,13 +604,19 @@ export class WebsiteIndex
 			return;
 		}
 
+		// pages are written while they are created, so a removed file can share its path with a file of this export,
+		// like a renamed note or a folder note replacing a folder page. Paths are compared ignoring case for case insensitive file systems.
+		let writtenPaths = new Set([...this.web.webpages, ...this.web.dependencies, ...this.web.downloads]
+			.map((file) => file.relativePath.copy.makeUnixStyle().makeWebStyle(options?.webStylePaths).asString.toLowerCase()));
+
 		for (let i = 0; i < this.removedFiles.length; i++)
 		{
 			if(MarkdownRendererAPI.checkCancelled()) return;
 			let removedPath = this.removedFiles[i];
 			console.log("Removing old file: ", this.previousMetadata.fileInfo);
 			let exportedPath = new Path(this.previousMetadata.fileInfo[removedPath].exportedPath);
-			exportedPath.makeWebStyle(options.webStylePaths);
+			exportedPath.makeUnixStyle().makeWebStyle(options.webStylePaths);
+			if (writtenPaths.has(exportedPath.asString.toLowerCase())) continue;
 
 			let deletePath = this.web.destination.join(exportedPath);
 			console.log("Deleting old file: " + deletePath.asString);
@@ -401,14 +663,179 @@ export class WebsiteIndex
 		}
 	}
 
-	public isFileChanged(file: TFile): boolean
+	public async isFileChanged(file: TFile): Promise<boolean>
 	{
 		let metadata = this.getMetadataForFile(file);
 		if (!metadata)
 		{
 			return true;
 		}
-		return metadata.modifiedTime < file.stat.mtime || metadata.sourceSize !== file.stat.size;
+
+		// metadata from older versions has no hashes
+		if (metadata.sourceHash == undefined)
+		{
+			return metadata.modifiedTime < file.stat.mtime || metadata.sourceSize !== file.stat.size;
+		}
+
+		return metadata.sourceHash !== await this.getSourceHash(file);
+	}
+
+	/**
+	 * Check if a page needs to be exported again because it or one of the notes it depends on has changed.
+	 */
+	public async isPageDirty(file: TFile): Promise<boolean>
+	{
+		if (await this.isFileChanged(file)) return true;
+
+		let previous = this.getMetadataForFile(file)?.noteDependencies;
+		if (!previous) return true;
+
+		let current = await this.getNoteDependencyHashes(file);
+		let previousPaths = Object.keys(previous);
+		let currentPaths = Object.keys(current);
+		if (previousPaths.length != currentPaths.length) return true;
+
+		return currentPaths.some((path) => previous?.[path] != current[path]);
+	}
+
+	/**
+	 * Get the notes whose content appears on the page of a file: notes embedded in it (including nested embeds),
+	 * and the notes listed in its backlinks with their title and a snippet.
+	 */
+	public getNoteDependencies(file: TFile): TFile[]
+	{
+		let dependencies: TFile[] = [];
+		if (!MarkdownRendererAPI.isConvertable(file.extension)) return dependencies;
+
+		let embedQueue: TFile[] = [file];
+		while (embedQueue.length > 0)
+		{
+			let current = embedQueue.shift() as TFile;
+			for (let embed of app.metadataCache.getFileCache(current)?.embeds ?? [])
+			{
+				let target = app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), current.path);
+				if (!target || target == file || dependencies.includes(target) || !MarkdownRendererAPI.isConvertable(target.extension)) continue;
+				dependencies.push(target);
+				embedQueue.push(target);
+			}
+		}
+
+		if (this.web.exportOptions.addBacklinks)
+		{
+			for (let source of this.getIncomingLinks(file))
+			{
+				if (!dependencies.includes(source)) dependencies.push(source);
+			}
+		}
+
+		return dependencies;
+	}
+
+	/**
+	 * Get the notes a file links to, whose title and icon appear on its page in the link text and previews.
+	 */
+	public getLinkedNotes(file: TFile): TFile[]
+	{
+		let linked: TFile[] = [];
+		if (!MarkdownRendererAPI.isConvertable(file.extension)) return linked;
+
+		for (let targetPath of Object.keys(app.metadataCache.resolvedLinks[file.path] ?? {}))
+		{
+			let target = app.vault.getAbstractFileByPath(targetPath);
+			if (target instanceof TFile && target != file && MarkdownRendererAPI.isConvertable(target.extension)) linked.push(target);
+		}
+
+		return linked;
+	}
+
+	/**
+	 * Get the exported files which link to a file.
+	 */
+	public getIncomingLinks(file: TFile): TFile[]
+	{
+		if (!this.backlinkSources)
+		{
+			this.backlinkSources = new Map();
+			for (let source of this.web.batchFiles)
+			{
+				for (let target of Object.keys(app.metadataCache.resolvedLinks[source.path] ?? {}))
+				{
+					let sources = this.backlinkSources.get(target) ?? [];
+					sources.push(source.path);
+					this.backlinkSources.set(target, sources);
+				}
+			}
+		}
+
+		let sources: TFile[] = [];
+		for (let sourcePath of this.backlinkSources.get(file.path) ?? [])
+		{
+			let source = app.vault.getAbstractFileByPath(sourcePath);
+			if (source instanceof TFile && source != file) sources.push(source);
+		}
+
+		return sources;
+	}
+
+	private async getNoteDependencyHashes(file: TFile): Promise<{[path: string]: string}>
+	{
+		let hashes: {[path: string]: string} = {};
+		for (let dependency of this.getNoteDependencies(file))
+		{
+			hashes[dependency.path] = await this.getSourceHash(dependency);
+		}
+
+		// only the title and icon of linked notes are shown, so changes to the rest of their content don't matter
+		for (let linked of this.getLinkedNotes(file))
+		{
+			if (hashes[linked.path] != undefined) continue;
+			let titleInfo = await Website.getTitleAndIcon(linked);
+			hashes[linked.path] = Utils.hash(JSON.stringify({ title: titleInfo.title, icon: titleInfo.icon }));
+		}
+
+		return hashes;
+	}
+
+	/**
+	 * Check if the content of an exported file is identical to the output of the previous export.
+	 * @param relativePath The path of the file relative to the export folder
+	 */
+	public isOutputUnchanged(relativePath: string, outputHash: string): boolean
+	{
+		let previousHash = this.getOutputHash(relativePath);
+		return previousHash != undefined && previousHash == outputHash;
+	}
+
+	private getOutputHash(relativePath: string): string | undefined
+	{
+		if (!this.previousMetadata) return undefined;
+
+		// pages are stored by their source path, so look up the hashes by exported path
+		if (!this.outputHashes)
+		{
+			this.outputHashes = new Map();
+			for (let info of Object.values(this.previousMetadata.fileInfo))
+			{
+				if (info.outputHash) this.outputHashes.set(info.exportedPath, info.outputHash);
+			}
+		}
+
+		return this.outputHashes.get(relativePath);
+	}
+
+	/**
+	 * Get the hash of a file's content in the vault. Generated pages are hashed by their markdown.
+	 */
+	public async getSourceHash(file: TFile): Promise<string>
+	{
+		let hash = this.sourceHashes.get(file.path);
+		if (hash) return hash;
+
+		let generatedPage = this.web.generatedPages.find((page) => page.source == file);
+		let content = generatedPage ? generatedPage.markdown : await new Path(file.path).readFileBuffer() ?? "";
+		hash = Utils.hash(content);
+		this.sourceHashes.set(file.path, hash);
+		return hash;
 	}
 
 	public hasFile(file: TFile): boolean
@@ -421,12 +848,12 @@ export class WebsiteIndex
 		return this.getMetadataForPath(path) !== undefined;
 	}
 
-	public getMetadataForFile(file: TFile): {modifiedTime: number,sourceSize: number,exportedPath: string,dependencies: string[]} | undefined
+	public getMetadataForFile(file: TFile): {modifiedTime: number,sourceSize: number,sourceHash?: string,outputHash?: string,exportedPath: string,dependencies: string[],noteDependencies?: {[path: string]: string}} | undefined
 	{
 		return this.previousMetadata?.fileInfo[file.path];
 	}
 
-	public getMetadataForPath(path: string):  {modifiedTime: number,sourceSize: number,exportedPath: string,dependencies: string[]} | undefined
+	public getMetadataForPath(path: string):  {modifiedTime: number,sourceSize: number,sourceHash?: string,outputHash?: string,exportedPath: string,dependencies: string[],noteDependencies?: {[path: string]: string}} | undefined
 	{
 		return this.previousMetadata?.fileInfo[path];
 	}
@@ -445,6 +872,11 @@ export class WebsiteIndex
 			this.allFiles.push(file.path);
 		}
 
+		for (let page of this.web.generatedPages)
+		{
+			this.allFiles.push(page.source.path);
+		}
+
 		for (let asset of this.web.dependencies)
 		{
 			if (this.allFiles.some((path) => Path.equal(path, asset.relativePath.asString))) continue;
@@ -515,10 +947,10 @@ export class WebsiteIndex
 
 		if (options.addSearch) // only create index if search bar is enabled
 		{
-			let index = await this.createIndex();
-			if (!index) return false;
-			this.web.dependencies.push(index);
-			this.web.downloads.push(index);
+			let indexFiles = await this.createIndex();
+			if (!indexFiles) return false;
+			this.web.dependencies.push(...indexFiles);
+			this.web.downloads.push(...indexFiles);
 		}
 
 		return true;
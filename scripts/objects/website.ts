@@ -1,11 +1,13 @@
 import { Downloadable } from "scripts/utils/downloadable";
-import { Webpage } from "./webpage";
+import { DownloadQueue } from "scripts/utils/download-queue";
+import { BrokenLink, BrokenLinkKind, Webpage } from "./webpage";
 import { FileTree } from "./file-tree";
 import { AssetHandler } from "scripts/html-generation/asset-handler";
-import {  TAbstractFile, TFile, TFolder } from "obsidian";
-import {  Settings } from "scripts/settings/settings";
+import {  TAbstractFile, TFile, TFolder, getAllTags } from "obsidian";
+import {  ExportPreset, LinkHandling, Settings } from "scripts/settings/settings";
 import { GraphView } from "./graph-view";
 import { Path } from "scripts/utils/path";
+import { Utils } from "scripts/utils/utils";
 import { ExportLog } from "scripts/html-generation/render-log";
 import { Asset, AssetType, InlinePolicy, Mutability } from "scripts/html-generation/assets/asset";
 import HTMLExportPlugin from "scripts/main";
@@ -13,7 +15,10 @@ import { WebsiteIndex } from "./website-index";
 import { HTMLGeneration } from "scripts/html-generation/html-generation-helpers";
 import { MarkdownRendererAPI } from "scripts/render-api";
 import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
-import RSS from 'rss';
+import { GeneratedWebpage } from "./generated-webpage";
+import { Feed, FeedScope } from "./feed";
+import { ContentDocument, ContentManifest } from "./content-document";
+import { SiteStrings, Translations } from "scripts/utils/translations";
 
 export class Website
 {
@@ -21,11 +26,29 @@ export class Website
 	public dependencies: Downloadable[] = [];
 	public downloads: Downloadable[] = [];
 	public batchFiles: TFile[] = [];
+	public excludedFiles: TFile[] = []; // files which were picked but excluded by their frontmatter
+	public writeQueue: DownloadQueue | undefined; // writes pages while the export is running, if files are being saved
+	public brokenLinks: BrokenLink[] = []; // links which do not lead to an exported page
 	public progress: number = 0;
 	public destination: Path;
 	public index: WebsiteIndex;
-	public rss: RSS;
-	public rssPath = AssetHandler.libraryPath.joinString("rss.xml").makeUnixStyle().asString;
+	public feeds: Feed[] = []; // the site feed first, followed by the folder and tag feeds
+	public contentManifest: ContentManifest | undefined; // lists the content documents, if they are exported
+	public sitemapPath = "sitemap.xml";
+	public robotsTxtPath = "robots.txt";
+	public tagPagesPath = "tags"; // moved to a free path if the vault already has files there
+
+	/**
+	 * Pages which are generated by the export instead of being rendered from a file in the vault.
+	 */
+	public generatedPages: GeneratedWebpage[] = [];
+	private tagPages: Map<string, GeneratedWebpage> = new Map();
+
+	/**
+	 * Links to the index page of each folder which has one, by folder path.
+	 */
+	public folderPageLinks: Map<string, string> = new Map();
+	private folderNotes: Map<TFile, string> = new Map(); // folder notes and the listing of their folder's contents
 
 	private globalGraph: GraphView;
 	private fileTree: FileTree;
@@ -33,60 +56,108 @@ export class Website
 
 	public graphDataAsset: Asset;
 	public fileTreeAsset: Asset;
+	public siteStringsAsset: Asset;
+	public strings: SiteStrings; // the translated text of the site
 
 
 	public static validBodyClasses: string;
 	public exportOptions: MarkdownWebpageRendererAPIOptions;
+	public exportPreset: ExportPreset;
+
+	/**
+	 * @param preset The export preset this website is being exported with.
+	 */
+	constructor(preset: ExportPreset = Settings.exportPreset)
+	{
+		this.exportPreset = preset;
+	}
 
 	/**
 	 * Create a new website with the given files and options.
 	 * @param files The files to include in the website.
 	 * @param destination The folder to export the website to.
 	 * @param options The api options to use for the export.
+	 * @param saveFiles Write each page to the destination as soon as it is created, and release its document afterwards.
+	 * The other files are left in downloads to be saved with Utils.downloadFiles.
+	 * When broken links can fail the export, the pages are left in downloads too, so nothing is written before the links are checked.
 	 * @returns The website object.
 	 */
-	public async createWithFiles(files: TFile[], destination: Path, options?: MarkdownWebpageRendererAPIOptions): Promise<Website | undefined>
+	public async createWithFiles(files: TFile[], destination: Path, options?: MarkdownWebpageRendererAPIOptions, saveFiles: boolean = false): Promise<Website | undefined>
 	{
 		this.exportOptions = Object.assign(new MarkdownWebpageRendererAPIOptions(), options);
-		this.batchFiles = files;
+		this.excludedFiles = files.filter((file) => Website.isFileExcluded(file, this.exportOptions));
+		this.batchFiles = files.filter((file) => !this.excludedFiles.includes(file));
 		this.destination = destination;
+		let linksCanFail = this.exportOptions.unresolvedLinks == LinkHandling.Fail || this.exportOptions.notExportedLinks == LinkHandling.Fail;
+		this.writeQueue = saveFiles && !linksCanFail ? new DownloadQueue(destination, this.exportOptions.writeConcurrency) : undefined;
 		await this.initExport();
 
-		console.log("Creating website with files: ", files);
+		console.log("Creating website with files: ", this.batchFiles);
+		if (this.excludedFiles.length > 0) ExportLog.log(this.excludedFiles.map((file) => file.path), "Excluded files");
 
 		let useIncrementalExport = this.index.shouldApplyIncrementalExport();
 
-		for (let file of files)
+		let totalPages = this.batchFiles.length + this.generatedPages.length;
+		for (let file of this.batchFiles)
 		{
 			if(MarkdownRendererAPI.checkCancelled()) return;
-			ExportLog.progress(this.progress, this.batchFiles.length, "Generating HTML", "Exporting: " + file.path, "var(--interactive-accent)");
+			ExportLog.progress(this.progress, totalPages, "Generating HTML", "Exporting: " + file.path, "var(--interactive-accent)");
 			this.progress++;
 
 			let filename = new Path(file.path).basename;
-			let webpage = new Webpage(file, destination, filename, this, this.exportOptions);
-			let shouldExportPage = (useIncrementalExport && this.index.isFileChanged(file)) || !useIncrementalExport;
+			let folderListing = this.folderNotes.get(file);
+			let webpage = new Webpage(file, destination, folderListing != undefined ? "index" : filename, this, this.exportOptions);
+			webpage.appendedMarkdown = folderListing ?? "";
+
+			// folder pages list the other files in the folder, so they are always exported
+			let shouldExportPage = (useIncrementalExport && await this.index.isPageDirty(file)) || !useIncrementalExport || folderListing != undefined;
 			if (!shouldExportPage) continue;
 
 			let createdPage = await webpage.create();
 			if(!createdPage) continue;
 
-			this.webpages.push(webpage);
-			this.downloads.push(webpage);
-			this.downloads.push(...webpage.dependencies);
-			this.dependencies.push(...webpage.dependencies);
+			await this.addCreatedPage(webpage, useIncrementalExport);
 		}
 
+		// generated pages are always exported because their content depends on the other files
+		for (let page of this.generatedPages)
+		{
+			if(MarkdownRendererAPI.checkCancelled()) return;
+			ExportLog.progress(this.progress, totalPages, "Generating HTML", "Exporting: " + page.source.path, "var(--interactive-accent)");
+			this.progress++;
+
+			let createdPage = await page.create();
+			if(!createdPage) continue;
+
+			await this.addCreatedPage(page, useIncrementalExport);
+		}
+
+		await this.writeQueue?.flush();
+
+		if (!this.reportBrokenLinks()) return;
 
 		this.dependencies.push(...AssetHandler.getDownloads(this.exportOptions));
 		this.downloads.push(...AssetHandler.getDownloads(this.exportOptions));
 
 		this.filterDownloads(true);
-		this.index.build(this.exportOptions);
+		await this.index.build(this.exportOptions);
 		this.filterDownloads();
 
-		if (this.exportOptions.addRSS)
+		if (this.contentManifest)
+		{
+			this.downloads.push(await this.contentManifest.getDownload(this.index.removedFiles));
+		}
+
+		await this.createFeeds();
+
+		if (this.exportOptions.addSitemap)
 		{
-			this.createRSS();
+			await this.createSitemap();
+		}
+
+		if (this.exportOptions.addRobotsTxt)
+		{
+			this.createRobotsTxt();
 		}
 
 		console.log("Website created: ", this);
@@ -94,6 +165,322 @@ export class Website
 		return this;
 	}
 
+	/**
+	 * Add a created page to the website, and collect the data which needs its document (search index, feeds).
+	 * When saving files the page is queued for writing right away and released once it is written.
+	 */
+	private async addCreatedPage(page: Webpage, useIncrementalExport: boolean)
+	{
+		// the content document is a dependency of the page, so it is tracked and removed along with it
+		if (this.contentManifest && page.isConvertable && page.document)
+		{
+			let contentDocument = await new ContentDocument(page).create();
+			page.dependencies.push(contentDocument);
+			this.contentManifest.addDocument(contentDocument);
+		}
+
+		// the search sections are a dependency of the page too
+		if (this.exportOptions.addSearch) this.index.indexPage(page);
+
+		this.webpages.push(page);
+		this.downloads.push(...page.dependencies);
+		this.dependencies.push(...page.dependencies);
+
+		for (let feed of this.feeds)
+		{
+			feed.addPage(page);
+		}
+
+		// the content api only writes the content documents of notes
+		let writeHTML = this.exportPreset != ExportPreset.ContentAPI || !page.isConvertable;
+
+		if (!this.writeQueue)
+		{
+			if (writeHTML) this.downloads.push(page);
+			return;
+		}
+
+		page.document = undefined;
+
+		if (!writeHTML)
+		{
+			// nothing was written, so the next export must not treat the page as unchanged
+			page.outputHash = "";
+			page.release();
+			return;
+		}
+
+		// skip writing pages which are identical to the previous export
+		let relativePath = page.relativePath.copy.makeUnixStyle().asString;
+		if (useIncrementalExport && this.index.isOutputUnchanged(relativePath, page.outputHash))
+		{
+			page.release();
+			return;
+		}
+
+		await this.writeQueue.add(page, () => page.release());
+	}
+
+	/**
+	 * Check if a file should be left out of the export because of its frontmatter or tags.
+	 */
+	public static isFileExcluded(file: TFile, options: MarkdownWebpageRendererAPIOptions): boolean
+	{
+		let cache = app.metadataCache.getFileCache(file);
+		if (!cache) return false;
+
+		let frontmatter = cache.frontmatter ?? {};
+		if (options.excludeUnpublished && (frontmatter["publish"] === false || frontmatter["publish"] === "false")) return true;
+		if (options.excludeDrafts && (frontmatter["draft"] === true || frontmatter["draft"] === "true")) return true;
+
+		let excludeTag = options.excludeTag?.trim().replace(/^#/, "").toLowerCase();
+		if (excludeTag)
+		{
+			let tags = getAllTags(cache) ?? [];
+			if (tags.some((tag) => tag.replace(/^#/, "").toLowerCase() == excludeTag)) return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Check if a file is exported as part of this website, either as a page or as an attachment.
+	 */
+	public isFileExported(file: TFile): boolean
+	{
+		return this.batchFiles.includes(file) || this.generatedPages.some((page) => page.source == file);
+	}
+
+	/**
+	 * Log a summary of the links which do not lead to an exported page.
+	 * @returns false if one of the links should fail the export.
+	 */
+	private reportBrokenLinks(): boolean
+	{
+		if (this.brokenLinks.length == 0) return true;
+
+		let kindNames = { [BrokenLinkKind.NotExported]: "not exported", [BrokenLinkKind.Unresolved]: "unresolved" };
+		let report = "";
+		let sources = Array.from(new Set(this.brokenLinks.map((link) => link.source))).sort();
+		for (let source of sources)
+		{
+			report += `${source}\n`;
+			for (let link of this.brokenLinks.filter((link) => link.source == source))
+			{
+				report += `\t${link.line != undefined ? "line " + link.line : "unknown line"}: ${link.target} (${kindNames[link.kind]})\n`;
+			}
+		}
+
+		let unresolvedCount = this.brokenLinks.filter((link) => link.kind == BrokenLinkKind.Unresolved).length;
+		let title = `Broken links: ${unresolvedCount} unresolved, ${this.brokenLinks.length - unresolvedCount} not exported`;
+
+		if (this.brokenLinks.some((link) => link.handling == LinkHandling.Fail))
+		{
+			ExportLog.error(report, title, true);
+			return false;
+		}
+
+		ExportLog.warning(report, title);
+		return true;
+	}
+
+	/**
+	 * Get the link to the index page of a folder, as it is written in the folder listings.
+	 */
+	public getFolderPageHref(folderPath: string): string | undefined
+	{
+		let link = this.folderPageLinks.get(folderPath);
+		if (!link) return undefined;
+		return new Path(link).makeUnixStyle().makeWebStyle(this.exportOptions.webStylePaths).asString;
+	}
+
+	/**
+	 * Check if a link points to the index page of a folder, which does not resolve to a file in the vault.
+	 */
+	public isFolderPageHref(href: string): boolean
+	{
+		return Array.from(this.folderPageLinks.keys()).some((folderPath) => this.getFolderPageHref(folderPath) == href);
+	}
+
+	/**
+	 * Get the generated page listing the notes with the given tag.
+	 * @param tag The tag with or without the leading #
+	 */
+	public getTagPage(tag: string): GeneratedWebpage | undefined
+	{
+		return this.tagPages.get(tag.replace(/^#/, "").toLowerCase());
+	}
+
+	private async createTagPages()
+	{
+		this.tagPages.clear();
+
+		// group files by tag, tags are case insensitive so the first spelling found is used
+		let taggedFiles: Map<string, {tag: string, files: TFile[]}> = new Map();
+		for (let file of this.batchFiles)
+		{
+			if (!MarkdownRendererAPI.isConvertable(file.extension)) continue;
+
+			let cache = app.metadataCache.getFileCache(file);
+			if (!cache) continue;
+
+			let tags = getAllTags(cache) ?? [];
+			for (let tag of tags)
+			{
+				tag = tag.replace(/^#/, "");
+				let key = tag.toLowerCase();
+				let entry = taggedFiles.get(key) ?? {tag: tag, files: []};
+				if (!entry.files.includes(file)) entry.files.push(file);
+				taggedFiles.set(key, entry);
+			}
+		}
+
+		if (taggedFiles.size == 0) return;
+
+		// the generated pages must not overwrite the pages of vault files in a folder with the same name
+		let vaultPaths = app.vault.getAllLoadedFiles().map((file) => file.path.toLowerCase());
+		let isPathUsed = (path: string) => vaultPaths.some((vaultPath) => vaultPath == path || vaultPath.startsWith(path + "/"));
+		this.tagPagesPath = "tags";
+		for (let i = 2; isPathUsed(this.tagPagesPath); i++) this.tagPagesPath = `tags-${i}`;
+		if (this.tagPagesPath != "tags") ExportLog.log(`The vault already has a "tags" folder, so the tag pages are exported to "${this.tagPagesPath}"`);
+
+		let sortedKeys = Array.from(taggedFiles.keys()).sort();
+		let escapeTitle = (title: string) => title.replace(/([[\]])/g, "\\$1");
+
+		for (let key of sortedKeys)
+		{
+			let entry = taggedFiles.get(key);
+			if (!entry) continue;
+
+			let files = entry.files.sort((a, b) => Website.getFileDate(b) - Website.getFileDate(a));
+			let nestedTags = sortedKeys.filter((other) => other.startsWith(key + "/")).map((other) => "#" + taggedFiles.get(other)?.tag);
+
+			let markdown = Translations.format(files.length == 1 ? this.strings.noteTagged : this.strings.notesTagged, { count: files.length, tag: "#" + entry.tag }) + "\n\n";
+			if (nestedTags.length > 0) markdown += `${this.strings.nestedTags} ${nestedTags.join(" ")}\n\n`;
+
+			for (let file of files)
+			{
+				let title = (await Website.getTitleAndIcon(file, true)).title;
+				let date = new Date(Website.getFileDate(file)).toISOString().split("T")[0];
+				let frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+				let description = (frontmatter?.["description"] || frontmatter?.["summary"] || "").toString().replaceAll("\n", " ");
+
+				markdown += `- [${escapeTitle(title)}](<${file.path}>) · ${date}\n`;
+				if (description) markdown += `  ${description}\n`;
+			}
+
+			// the all tags page is tags/index, so a tag named index gets a different file name
+			let fileName = key == "index" ? "_index" : entry.tag;
+			let page = new GeneratedWebpage(`${this.tagPagesPath}/${fileName}.md`, entry.tag, markdown, this.destination, this, this.exportOptions, files);
+			this.tagPages.set(key, page);
+			this.generatedPages.push(page);
+		}
+
+		let allTagsMarkdown = sortedKeys.map((key) => 
+		{
+			let entry = taggedFiles.get(key);
+			return `- #${entry?.tag} (${entry?.files.length})`;
+		}).join("\n");
+
+		let allTaggedFiles = Array.from(new Set(Array.from(taggedFiles.values()).flatMap((entry) => entry.files)));
+		let allTagsPage = new GeneratedWebpage(`${this.tagPagesPath}/index.md`, this.strings.tags, allTagsMarkdown, this.destination, this, this.exportOptions, allTaggedFiles);
+		this.generatedPages.push(allTagsPage);
+		this.folderPageLinks.set(this.tagPagesPath, `${this.tagPagesPath}/index.html`);
+	}
+
+	private async createFolderPages()
+	{
+		this.folderNotes.clear();
+
+		// find every folder containing an exported file
+		let folders: TFolder[] = [];
+		for (let file of this.batchFiles)
+		{
+			let folder = file.parent;
+			while (folder && !folder.isRoot() && !folders.includes(folder))
+			{
+				folders.push(folder);
+				folder = folder.parent;
+			}
+		}
+
+		for (let folder of folders)
+		{
+			this.folderPageLinks.set(folder.path, `${folder.path}/index.html`);
+		}
+
+		for (let folder of folders)
+		{
+			let folderNote = this.batchFiles.find((file) => file.parent == folder && file.extension == "md" && (file.basename == folder.name || file.basename == "index"));
+			let listing = await this.getFolderListing(folder, folderNote);
+
+			if (folderNote)
+			{
+				this.folderNotes.set(folderNote, listing);
+				continue;
+			}
+
+			let folderFiles = this.batchFiles.filter((file) => file.path.startsWith(folder.path + "/"));
+			let page = new GeneratedWebpage(`${folder.path}/index.md`, folder.name, listing, this.destination, this, this.exportOptions, folderFiles);
+			this.generatedPages.push(page);
+		}
+	}
+
+	/**
+	 * Create a markdown list of the exported subfolders and files in a folder.
+	 */
+	private async getFolderListing(folder: TFolder, folderNote?: TFile): Promise<string>
+	{
+		let escapeTitle = (title: string) => title.replace(/([[\]])/g, "\\$1");
+		let folderItems: string[] = [];
+		let fileItems: string[] = [];
+
+		for (let child of folder.children)
+		{
+			if (child instanceof TFolder)
+			{
+				let href = this.getFolderPageHref(child.path);
+				if (!href) continue;
+				folderItems.push(`- [${escapeTitle(child.name)}/](<${href}>)`);
+			}
+			else if (child instanceof TFile && child != folderNote && this.batchFiles.includes(child))
+			{
+				let title = (await Website.getTitleAndIcon(child, true)).title;
+				fileItems.push(`- [${escapeTitle(title)}](<${child.path}>)`);
+			}
+		}
+
+		folderItems.sort();
+		fileItems.sort();
+
+		let items = [...folderItems, ...fileItems];
+		if (items.length == 0) return "";
+
+		return (folderNote ? "\n---\n\n" : "") + items.join("\n");
+	}
+
+	/**
+	 * Get the path a file is exported to, relative to the export folder.
+	 * Folder notes are exported as the index page of their folder.
+	 */
+	public getExportPath(file: TFile): Path
+	{
+		let path = new Path(file.path);
+		if (this.folderNotes.has(file)) path = Path.joinStrings(file.parent?.path ?? "", "index.html");
+		if (MarkdownRendererAPI.isConvertable(path.extensionName)) path.setExtension("html");
+		return path.makeUnixStyle().makeWebStyle(this.exportOptions.webStylePaths);
+	}
+
+	/**
+	 * Get the date of a file from its "date" or "created" property, or from its modified time.
+	 */
+	public static getFileDate(file: TFile): number
+	{
+		let frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		let date = new Date(frontmatter?.["date"] ?? frontmatter?.["created"] ?? file.stat.mtime).getTime();
+		return isNaN(date) ? file.stat.mtime : date;
+	}
+
 	private giveWarnings()
 	{
 		// if iconize plugin is installed, warn if note icons are not enabled
@@ -135,10 +522,15 @@ export class Website
 			}
 		}
 
-		// warn the user if they are trying to create an rss feed without a site url
-		if (this.exportOptions.addRSS && (this.exportOptions.siteURL == "" || this.exportOptions.siteURL == undefined))
+		// warn the user if they are trying to create a feed without a site url
+		if (Feed.getEnabledFormats(this.exportOptions).length > 0 && (this.exportOptions.siteURL == "" || this.exportOptions.siteURL == undefined))
+		{
+			ExportLog.warning("Creating a feed requires a site url to be set in the export settings.");
+		}
+
+		if ((this.exportOptions.addSitemap || this.exportOptions.addRobotsTxt) && (this.exportOptions.siteURL == "" || this.exportOptions.siteURL == undefined))
 		{
-			ExportLog.warning("Creating an RSS feed requires a site url to be set in the export settings.");
+			ExportLog.warning("Creating a sitemap or robots.txt requires a site url to be set in the export settings.");
 		}
 
 	}
@@ -147,29 +539,50 @@ export class Website
 	{
 		this.progress = 0;
 		this.index = new WebsiteIndex(this);
+		this.feeds = Feed.getEnabledFormats(this.exportOptions).length > 0 ? [new Feed(this), ...this.getScopedFeeds()] : [];
+		this.contentManifest = this.exportOptions.addContentJSON ? new ContentManifest(this) : undefined;
+		this.strings = await Translations.loadStrings(this.exportOptions.language, this.exportOptions.translationsPath);
 
-		await MarkdownRendererAPI.beginBatch();
+		await MarkdownRendererAPI.beginBatch(this.exportOptions);
 
 		this.giveWarnings();
 
+		if (this.exportOptions.addTagPages)
+		{
+			ExportLog.progress(0, 1, "Initialize Export", "Generating tag pages", "var(--color-yellow)");
+			await this.createTagPages();
+		}
+
+		if (this.exportOptions.addFolderPages)
+		{
+			ExportLog.progress(0, 1, "Initialize Export", "Generating folder pages", "var(--color-yellow)");
+			await this.createFolderPages();
+		}
+
 		if (this.exportOptions.addGraphView)
 		{
 			ExportLog.progress(0, 1, "Initialize Export", "Generating graph view", "var(--color-yellow)");
-			let convertableFiles = this.batchFiles.filter((file) => MarkdownRendererAPI.isConvertable(file.extension));
 			this.globalGraph = new GraphView();
-			await this.globalGraph.init(convertableFiles, this.exportOptions);
+			await this.globalGraph.init(this.batchFiles, this.exportOptions, this);
 		}
 
 		if (this.exportOptions.addFileNavigation)
 		{
 			ExportLog.progress(0, 1, "Initialize Export", "Generating file tree", "var(--color-yellow)");
-			this.fileTree = new FileTree(this.batchFiles, false, true);
+
+			// folder notes and index pages are shown as the folder itself
+			let isFolderPage = (file: TFile) => this.folderPageLinks.has(file.parent?.path ?? "") && (this.folderNotes.has(file) || (file.basename == "index" && this.generatedPages.some((page) => page.source == file)));
+			let treeFiles = [...this.batchFiles, ...this.generatedPages.map((page) => page.source)].filter((file) => !isFolderPage(file));
+
+			this.fileTree = new FileTree(treeFiles, false, true);
+			this.fileTree.folderLinks = this.folderPageLinks;
 			this.fileTree.makeLinksWebStyle = this.exportOptions.webStylePaths ?? true;
 			this.fileTree.showNestingIndicator = true;
 			this.fileTree.generateWithItemsClosed = true;
 			this.fileTree.showFileExtentionTags = true;
 			this.fileTree.hideFileExtentionTags = ["md"]
 			this.fileTree.title = this.exportOptions.siteName ?? app.vault.getName();
+			this.fileTree.collapseAllLabel = this.strings.collapseAll;
 			this.fileTree.class = "file-tree";
 
 			let tempTreeContainer = document.body.createDiv();
@@ -184,6 +597,9 @@ export class Website
 
 		Website.validBodyClasses = await HTMLGeneration.getValidBodyClasses(true);
 
+		this.siteStringsAsset = new Asset("site-strings.js", Translations.getExportData(this.strings), AssetType.Script, InlinePolicy.AutoHead, true, Mutability.Temporary);
+		this.siteStringsAsset.load(this.exportOptions);
+
 		if (this.exportOptions.addGraphView)
 		{
 			ExportLog.progress(1, 1, "Loading graph asset", "...", "var(--color-yellow)");
@@ -202,185 +618,108 @@ export class Website
 		await this.index.init();
 	}
 
-	private async createRSS()
+	/**
+	 * Get the feeds which include the given file.
+	 */
+	public getFeedsForFile(file: TFile): Feed[]
 	{
-		let author = this.exportOptions.authorName ||  undefined;
-
-		this.rss = new RSS(
-		{
-			title: this.exportOptions.siteName ?? app.vault.getName(),
-			description: "Obsidian digital garden",
-			generator: "Webpage HTML Export plugin for Obsidian",
-			feed_url: Path.joinStrings(this.exportOptions.siteURL ?? "", this.rssPath).asString,
-			site_url: this.exportOptions.siteURL ?? "",
-			image_url: Path.joinStrings(this.exportOptions.siteURL ?? "", AssetHandler.favicon.relativePath.asString).asString,
-			pubDate: new Date(this.index.exportTime),
-			copyright: author,
-			ttl: 60,
-			custom_elements:
-			[
-				{ "dc:creator": author },
-
-			]
-		});
+		return this.feeds.filter((feed) => feed.includesFile(file));
+	}
 
-		for (let page of this.webpages)
+	/**
+	 * Create the folder and tag feeds from the export options and the "feed" frontmatter of folder notes.
+	 */
+	private getScopedFeeds(): Feed[]
+	{
+		let siteName = this.exportOptions.siteName ?? app.vault.getName();
+		let feeds: Feed[] = [];
+		let addFeed = (scope: FeedScope, title?: string, description?: string) =>
 		{
-			// only include convertable pages with content
-			if (!page.isConvertable || page.sizerElement.innerText.length < 5) continue;
+			if (scope.value == "" || feeds.some((feed) => feed.scope?.type == scope.type && feed.scope.value.toLowerCase() == scope.value.toLowerCase())) return;
+			let name = scope.type == "tag" ? "#" + scope.value : scope.value.split("/").pop();
+			feeds.push(new Feed(this, title ?? `${siteName} - ${name}`, description, scope));
+		}
 
-			let title = page.title;
-			let url = Path.joinStrings(this.exportOptions.siteURL ?? "", page.relativePath.asString).asString;
-			let guid = page.source.path;
-			let date = new Date(page.source.stat.mtime);
-			author = page.author ?? author;
-			let media = page.metadataImageURL ?? "";
-			let hasMedia = media != "";
+		for (let scope of this.exportOptions.scopedFeeds ?? [])
+		{
+			if (scope.startsWith("#")) addFeed({ type: "tag", value: scope.replace(/^#/, "") });
+			else addFeed({ type: "folder", value: Utils.trimEnd(scope.replaceAll("\\", "/"), "/") });
+		}
 
-			let description = page.description;
+		for (let file of this.batchFiles)
+		{
+			let folder = file.parent;
+			if (!folder || folder.isRoot() || file.extension != "md" || (file.basename != folder.name && file.basename != "index")) continue;
 
-			if (!description)
-			{
-				let content = page.viewElement.cloneNode(true) as HTMLElement;
-				content.querySelectorAll(`h1, h2, h3, h4, h5, h6, .mermaid, table, mjx-container, style, script,
-.mod-header, .mod-footer, .metadata-container, .frontmatter, img[src^="data:"]`).forEach((heading) => heading.remove());
+			let frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+			let feedValue = frontmatter?.["feed"];
+			if (!feedValue || feedValue === "false") continue;
 
-				// update image links
-				content.querySelectorAll("[src]").forEach((el: HTMLImageElement) =>
-				{
-					let src = el.src;
-					if (!src) return;
-					if (src.startsWith("http") || src.startsWith("data:")) return;
-					src = src.replace("app://obsidian", "");
-					src = src.replace(".md", "");
-					let path = Path.joinStrings(this.exportOptions.siteURL ?? "", src);
-					el.src = path.asString;
-				});
-
-				// update normal links
-				content.querySelectorAll("[href]").forEach((el: HTMLAnchorElement) =>
-				{
-					let href = el.href;
-					if (!href) return;
-					if (href.startsWith("http") || href.startsWith("data:")) return;
-					href = href.replace("app://obsidian", "");
-					href = href.replace(".md", "");
-					let path = Path.joinStrings(this.exportOptions.siteURL ?? "", href);
-					el.href = path.asString;
-				});
-
-				// console.log("Content: ", content.outerHTML);
-
-				function keepTextLinksImages(element: HTMLElement)
-				{
-					let walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
-					let node;
-					let nodes = [];
-					while (node = walker.nextNode())
-					{
-						if (node.nodeType == Node.ELEMENT_NODE)
-						{
-							let element = node as HTMLElement;
-							if (element.tagName == "A" || element.tagName == "IMG" || element.tagName == "BR")
-							{
-								nodes.push(element);
-							}
-
-							if (element.tagName == "DIV")
-							{
-								let classes = element.parentElement?.classList;
-								if (classes?.contains("heading-children") || classes?.contains("markdown-preview-sizer"))
-								{
-									nodes.push(document.createElement("br"));
-								}
-							}
-
-							if (element.tagName == "LI")
-							{
-								nodes.push(document.createElement("br"));
-							}
-						}
-						else
-						{
-							if (node.parentElement?.tagName != "A" && node.parentElement?.tagName != "IMG")
-								nodes.push(node);
-						}
-					}
+			let title = typeof feedValue == "string" && feedValue !== "true" ? feedValue : undefined;
+			addFeed({ type: "folder", value: folder.path }, title, frontmatter?.["description"]);
+		}
 
-					element.innerHTML = "";
-					element.append(...nodes);
-				}
+		return feeds;
+	}
 
-				keepTextLinksImages(content);
-				description = content.innerHTML;
-				content.remove();
-			}
+	private async createFeeds()
+	{
+		// the pages were added to the feeds as they were created
+		let formats = Feed.getEnabledFormats(this.exportOptions);
+		for (let feed of this.feeds)
+		{
+			this.downloads.push(...await feed.getDownloads(formats, this.destination, this.index.removedFiles));
+		}
+	}
+
+	private async createSitemap()
+	{
+		let escapeXML = (text: string) => text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll("\"", "&quot;").replaceAll("'", "&apos;");
+		let entries: Map<string, string> = new Map(); // url -> lastmod
 
-			// add tags to top of description
-			let tags = page.tags.map((t) => t).map((tag) => `<a class="tag" href="${this.exportOptions.siteURL}?query=tag:${tag.replace("#", "")}">${tag}</a>`).join(" ");
-			let tagContainer = document.body.createDiv();
-			tagContainer.innerHTML = tags;
-			tagContainer.style.display = "flex";
-			tagContainer.style.gap = "0.4em";
+		for (let page of this.webpages)
+		{
+			if (!page.isConvertable) continue;
+			entries.set(encodeURI(page.fullURL), new Date(page.source.stat.mtime).toISOString());
+		}
 
-			tagContainer.querySelectorAll("a.tag").forEach((tag: HTMLElement) =>
+		// keep the pages of the previous export which were not exported this time, unless they were removed
+		let sitemapAbsolutePath = this.destination.joinString(this.sitemapPath);
+		let sitemapFileOld = await sitemapAbsolutePath.readFileString();
+		if (sitemapFileOld)
+		{
+			let removedURLs = this.index.removedFiles.map((path) => 
 			{
-				tag.style.backgroundColor = "#046c74";
-				tag.style.color = "white";
-				tag.style.fontWeight = "700";
-				tag.style.border = "none";
-				tag.style.borderRadius = "1em";
-				tag.style.padding = "0.2em 0.5em";
+				let exportedPath = this.index.getMetadataForPath(path)?.exportedPath ?? "";
+				return encodeURI(Path.joinStrings(this.exportOptions.siteURL ?? "", exportedPath).makeUnixStyle().asString);
 			});
 
-			description = tagContainer.innerHTML + " \n " + description;
-			tagContainer.remove();
-
-			this.rss.item(
+			let sitemapDocOld = new DOMParser().parseFromString(sitemapFileOld, "text/xml");
+			for (let urlEl of Array.from(sitemapDocOld.querySelectorAll("url")))
 			{
-				title: title,
-				description: description,
-				url: url,
-				guid: guid,
-				date: date,
-				enclosure: hasMedia ? { url: media } : undefined,
-				author: author,
-				custom_elements:
-				[
-					hasMedia ? { "content:encoded": `<figure><img src="${media}"></figure>` } : undefined,
-				]
-			});
+				let url = urlEl.querySelector("loc")?.textContent ?? "";
+				if (url == "" || entries.has(url) || removedURLs.includes(url)) continue;
+				entries.set(url, urlEl.querySelector("lastmod")?.textContent ?? new Date(this.index.exportTime).toISOString());
+			}
 		}
 
-		let result = this.rss.xml();
-
-		let rssAbsoultePath = this.destination.joinString(this.rssPath);
-		let rssFileOld = await rssAbsoultePath.readFileString();
-		if (rssFileOld)
+		let sitemap = `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n`;
+		for (let [url, lastmod] of entries)
 		{
-			let rssDocOld = new DOMParser().parseFromString(rssFileOld, "text/xml");
-			let rssDocNew = new DOMParser().parseFromString(result, "text/xml");
-
-			// insert old items into new rss and remove duplicates
-			let oldItems = Array.from(rssDocOld.querySelectorAll("item")) as HTMLElement[];
-			let newItems = Array.from(rssDocNew.querySelectorAll("item")) as HTMLElement[];
-
-			oldItems = oldItems.filter((oldItem) => !newItems.find((newItem) => newItem.querySelector("guid")?.textContent == oldItem.querySelector("guid")?.textContent));
-			oldItems = oldItems.filter((oldItem) => !this.index.removedFiles.contains(oldItem.querySelector("guid")?.textContent ?? ""));
-			newItems = newItems.concat(oldItems);
-
-			// remove all items from new rss
-			newItems.forEach((item) => item.remove());
+			sitemap += `\t<url>\n\t\t<loc>${escapeXML(url)}</loc>\n\t\t<lastmod>${lastmod}</lastmod>\n\t</url>\n`;
+		}
+		sitemap += `</urlset>\n`;
 
-			// add items back to new rss
-			let channel = rssDocNew.querySelector("channel");
-			newItems.forEach((item) => channel?.appendChild(item));
+		this.downloads.push(new Downloadable(this.sitemapPath, sitemap, Path.emptyPath));
+	}
 
-			result = rssDocNew.documentElement.outerHTML;
-		}
+	private createRobotsTxt()
+	{
+		let sitemapURL = Path.joinStrings(this.exportOptions.siteURL ?? "", this.sitemapPath).makeUnixStyle().asString;
+		let robots = `User-agent: *\nAllow: /\n`;
+		if (this.exportOptions.addSitemap) robots += `\nSitemap: ${sitemapURL}\n`;
 
-		let rss = new Asset("rss.xml", result, AssetType.Other, InlinePolicy.Download, false, Mutability.Temporary);
-		rss.download(this.destination);
+		this.downloads.push(new Downloadable(this.robotsTxtPath, robots, Path.emptyPath));
 	}
 
 	private filterDownloads(onlyDuplicates: boolean = false)
@@ -395,6 +734,15 @@ export class Website
 		let localThis = this;
 		function filterFunction(file: Downloadable)
 		{
+			// skip writing files which are identical to the previous export
+			let relativePath = file.relativePath.copy.makeUnixStyle().asString;
+			let outputHash = file instanceof Webpage ? file.outputHash : Utils.hash(file.content);
+			if (localThis.index.isOutputUnchanged(relativePath, outputHash))
+			{
+				console.log("Unchanged: " + file.relativePath.asString);
+				return false;
+			}
+
 			// always include .html files
 			if (file.filename.endsWith(".html")) return true;
 
@@ -411,9 +759,12 @@ export class Website
 				return false;
 			}
 
-			// always include files that have been modified since last export
-			let metadata = localThis.index.getMetadataForPath(file.relativePath.copy.makeUnixStyle().asString);
-			if (metadata && (file.modifiedTime > metadata.modifiedTime || metadata.sourceSize != file.content.length))
+			// always include new files, and files whose content differs from the previous export
+			let metadata = localThis.index.getMetadataForPath(relativePath);
+			if (!metadata || metadata.outputHash != undefined) return true;
+
+			// metadata from older versions has no hashes
+			if (file.modifiedTime > metadata.modifiedTime || metadata.sourceSize != file.content.length)
 				return true;
 
 			console.log("Excluding: " + file.relativePath.asString);
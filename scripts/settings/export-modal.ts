@@ -1,7 +1,7 @@
 import { ButtonComponent, Modal, Setting, TFile } from 'obsidian';
 import { Utils } from '../utils/utils';
 import HTMLExportPlugin from '../main';
-import { ExportPreset, Settings, SettingsPage } from './settings';
+import { ExportPreset, ExportProfile, ExportTarget, Settings, SettingsPage } from './settings';
 import { FilePickerTree } from '../objects/file-picker';
 import { Path } from 'scripts/utils/path';
 
@@ -23,10 +23,49 @@ export class ExportModal extends Modal
 	private validPath: boolean = true;
 	public static title: string = "Export to HTML";
 
+	private profile: ExportProfile | undefined = undefined;
+
 	public exportInfo: ExportInfo;
 
-	constructor() {
+	/**
+	 * @param profile If defined, the picked files, export path and export mode are saved to this profile instead of the global settings.
+	 */
+	constructor(profile?: ExportProfile) {
 		super(app);
+		this.profile = profile;
+	}
+
+	private get savedFiles(): string[]
+	{
+		return this.profile?.filesToExport ?? Settings.filesToExport[0];
+	}
+
+	private set savedFiles(files: string[])
+	{
+		if (this.profile) this.profile.filesToExport = files;
+		else Settings.filesToExport[0] = files;
+	}
+
+	private get exportPath(): string
+	{
+		return this.profile?.exportPath ?? Settings.exportPath;
+	}
+
+	private set exportPath(path: string)
+	{
+		if (this.profile) this.profile.exportPath = path;
+		else Settings.exportPath = path;
+	}
+
+	private get exportTarget(): ExportTarget
+	{
+		return this.profile?.optionOverrides.exportTarget ?? Settings.exportTarget;
+	}
+
+	private set exportTarget(target: ExportTarget)
+	{
+		if (this.profile) this.profile.optionOverrides.exportTarget = target;
+		else Settings.exportTarget = target;
 	}
 
 	overridePickedFiles(files: TFile[])
@@ -81,9 +120,9 @@ export class ExportModal extends Modal
 			this.filePicker.hideFileExtentionTags = ["md"];
 			await this.filePicker.generateTree(scrollArea);
 			
-			if((this.pickedFiles?.length ?? 0 > 0) || Settings.filesToExport[0].length > 0) 
+			if((this.pickedFiles?.length ?? 0 > 0) || this.savedFiles.length > 0) 
 			{
-				let filesToPick = this.pickedFiles?.map(file => file.path) ?? Settings.filesToExport[0];
+				let filesToPick = this.pickedFiles?.map(file => file.path) ?? this.savedFiles;
 				this.filePicker.setSelectedFiles(filesToPick);
 			}
 
@@ -91,7 +130,7 @@ export class ExportModal extends Modal
 			{
 				button.setButtonText("Save").onClick(async () =>
 				{
-					Settings.filesToExport[0] = this.filePicker.getSelectedFilesSavePaths();
+					this.savedFiles = this.filePicker.getSelectedFilesSavePaths();
 					await SettingsPage.saveSettings();
 				});
 			});
@@ -105,7 +144,7 @@ export class ExportModal extends Modal
 
 		contentEl.empty();
 
-		this.titleEl.setText(ExportModal.title);
+		this.titleEl.setText(this.profile ? `${ExportModal.title} (${this.profile.name})` : ExportModal.title);
 
 		if (HTMLExportPlugin.updateInfo.updateAvailable) 
 		{
@@ -142,21 +181,33 @@ export class ExportModal extends Modal
 		{
 			"website": "This will export a file structure suitable for uploading to your own web server.",
 			"documents": "This will export self-contained, but slow loading and large, html documents.",
-			"raw-documents": "This will export raw, self-contained documents without the website layout. This is useful for sharing individual notes, or printing."
+			"raw-documents": "This will export raw, self-contained documents without the website layout. This is useful for sharing individual notes, or printing.",
+			"content-api": "This will export a JSON document for each note with its rendered content and metadata, and a manifest listing them. This is useful for building your own front-end."
 		}
 
+		let currentPreset = this.profile?.exportPreset ?? Settings.exportPreset;
 		let exportModeSetting = new Setting(contentEl)
 			.setName('Export Mode')
 			// @ts-ignore
-			.setDesc(modeDescriptions[Settings.exportPreset] + "\n\nSome options are only available in certain modes.")
+			.setDesc(modeDescriptions[currentPreset] + "\n\nSome options are only available in certain modes.")
 			.setHeading()
 			.addDropdown((dropdown) => dropdown
 				.addOption('website', 'Online Web Server')
 				.addOption('documents', 'HTML Documents')
 				.addOption('raw-documents', 'Raw HTML Documents')
-				.setValue(["website", "documents", "raw-documents"].contains(Settings.exportPreset) ? Settings.exportPreset : 'website')
+				.addOption('content-api', 'Content API (JSON)')
+				.setValue(["website", "documents", "raw-documents", "content-api"].contains(currentPreset) ? currentPreset : 'website')
 				.onChange(async (value) =>
 				{
+					// profiles apply their preset at export time, so don't touch the global settings
+					if (this.profile)
+					{
+						this.profile.exportPreset = value as ExportPreset;
+						await SettingsPage.saveSettings();
+						this.open();
+						return;
+					}
+
 					Settings.exportPreset = value as ExportPreset;
 
 					switch (value) {
@@ -186,6 +237,22 @@ export class ExportModal extends Modal
 							Settings.addSearchBar = false;
 							await SettingsPage.saveSettings();
 
+							break;
+						case 'content-api':
+							Settings.inlineAssets = false;
+							Settings.makeNamesWebStyle = true;
+							Settings.addGraphView = false;
+							Settings.addFileNav = false;
+							Settings.addSearchBar = false;
+							Settings.addContentJSON = true;
+							Settings.addTitle = false;
+							Settings.addRSSFeed = false;
+							Settings.addAtomFeed = false;
+							Settings.addJSONFeed = false;
+							Settings.addSitemap = false;
+							Settings.addRobotsTxt = false;
+							await SettingsPage.saveSettings();
+
 							break;
 					}
 
@@ -195,6 +262,21 @@ export class ExportModal extends Modal
 		exportModeSetting.descEl.style.whiteSpace = "pre-wrap";
 
 		SettingsPage.createToggle(contentEl, "Open after export", () => Settings.openAfterExport, (value) => Settings.openAfterExport = value);
+
+		new Setting(contentEl)
+			.setName('Export to')
+			.setDesc('Other targets are saved next to the export directory, with the same name as the directory. Books ignore the export mode, and single files always inline their assets.')
+			.addDropdown((dropdown) => dropdown
+				.addOption(ExportTarget.Folder, 'Directory')
+				.addOption(ExportTarget.Zip, 'Zip archive')
+				.addOption(ExportTarget.Epub, 'EPUB book')
+				.addOption(ExportTarget.SingleFile, 'Single HTML file')
+				.setValue(this.exportTarget)
+				.onChange(async (value) =>
+				{
+					this.exportTarget = value as ExportTarget;
+					await SettingsPage.saveSettings();
+				}));
 		
 		let exportButton : ButtonComponent | undefined = undefined;
 
@@ -218,7 +300,7 @@ export class ExportModal extends Modal
 				requireExists: true
 			});
 
-		let exportPathInput = SettingsPage.createFileInput(contentEl, () => Settings.exportPath, (value) => Settings.exportPath = value,
+		let exportPathInput = SettingsPage.createFileInput(contentEl, () => this.exportPath, (value) => this.exportPath = value,
 		{
 			name: '',
 			description: '',
@@ -256,7 +338,7 @@ export class ExportModal extends Modal
 		
 		this.pickedFiles = this.filePicker.getSelectedFiles();
 		this.filePickerModalEl.remove();
-		this.exportInfo = { canceled: this.canceled, pickedFiles: this.pickedFiles, exportPath: new Path(Settings.exportPath), validPath: this.validPath};
+		this.exportInfo = { canceled: this.canceled, pickedFiles: this.pickedFiles, exportPath: new Path(this.exportPath), validPath: this.validPath};
 
 		return this.exportInfo;
 	}
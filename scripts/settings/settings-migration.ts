@@ -14,6 +14,11 @@ export async function migrateSettings()
 	[
 		"filesToExport",
 		"exportPath",
+		"exportProfiles",
+		"excludeUnpublished",
+		"excludeDrafts",
+		"excludeTag",
+		"scopedFeeds",
 		"includePluginCSS",
 		"includeGraphView",
 		"graphMaxNodeSize",
@@ -23,6 +28,12 @@ export async function migrateSettings()
 		"graphRepulsionForce",
 		"graphLinkLength",
 		"graphAttractionForce",
+		"graphLocalDepth",
+		"graphStartLocal",
+		"graphShowTags",
+		"graphShowAttachments",
+		"graphColorGroups",
+		"graphPrecomputeLayout",
 	]
 
 	try
@@ -1,11 +1,14 @@
-import { Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, TextComponent, Vault, getIcon } from 'obsidian';
+import { DropdownComponent, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, TextComponent, Vault, getIcon } from 'obsidian';
 import { Utils } from '../utils/utils';
 import { Path } from '../utils/path';
+import { SearchLanguage } from '../utils/search-language';
+import { Translations } from '../utils/translations';
 import pluginStylesBlacklist from 'assets/third-party-styles-blacklist.txt';
 import { FlowList } from './flow-list';
 import { ExportInfo, ExportModal } from './export-modal';
 import { migrateSettings } from './settings-migration';
 import { ExportLog } from 'scripts/html-generation/render-log';
+import { GraphViewOptions, MarkdownWebpageRendererAPIOptions } from 'scripts/api-options';
 
 // #region Settings Definition
 
@@ -14,6 +17,23 @@ export enum ExportPreset
 	Website = "website",
 	Documents = "documents",
 	RawDocuments = "raw-documents",
+	ContentAPI = "content-api",
+}
+
+export enum ExportTarget
+{
+	Folder = "folder",
+	Zip = "zip",
+	Epub = "epub",
+	SingleFile = "single-file",
+}
+
+export enum LinkHandling
+{
+	Keep = "keep",
+	PlainText = "text",
+	Missing = "missing",
+	Fail = "fail",
 }
 
 export enum EmojiStyle
@@ -25,6 +45,17 @@ export enum EmojiStyle
 	FluentUI = "FluentUI",
 }
 
+export interface ExportProfile
+{
+	id: string;
+	name: string;
+	filesToExport: string[];
+	exportPath: string;
+	exportPreset: ExportPreset;
+	/** Api options which override the global settings and the preset when exporting this profile */
+	optionOverrides: MarkdownWebpageRendererAPIOptions;
+}
+
 export class Settings
 {
 	public static settingsVersion: string;
@@ -52,24 +83,46 @@ export class Settings
 	// Export Options
 	public static logLevel: "all" | "warning" | "error" | "fatal" | "none";
 	public static minifyHTML: boolean;
+	public static writeConcurrency: number;
 	public static makeNamesWebStyle: boolean;
 	public static onlyExportModified: boolean;
 	public static deleteOldFiles: boolean;
 
+	// Publish Filter
+	public static excludeUnpublished: boolean;
+	public static excludeDrafts: boolean;
+	public static excludeTag: string;
+	public static notExportedLinks: LinkHandling;
+	public static unresolvedLinks: LinkHandling;
+
 	// Page Features
 	public static addThemeToggle: boolean;
 	public static addOutline: boolean;
+	public static addBacklinks: boolean;
 	public static addFileNav: boolean;
 	public static addSearchBar: boolean;
+	public static searchProperties: string;
+	public static searchLanguage: string;
 	public static addGraphView: boolean;
 	public static addTitle: boolean;
 	public static addRSSFeed: boolean;
+	public static addAtomFeed: boolean;
+	public static addJSONFeed: boolean;
+	public static scopedFeeds: string;
+	public static addSitemap: boolean;
+	public static addRobotsTxt: boolean;
+	public static addContentJSON: boolean;
+	public static addTagPages: boolean;
+	public static addFolderPages: boolean;
 
 	// Main Export Options
 	public static siteURL: string;
 	public static authorName: string;
 	public static vaultTitle: string;
+	public static siteLanguage: string;
+	public static translationsPath: string;
 	public static exportPreset: ExportPreset;
+	public static exportTarget: ExportTarget;
 	public static openAfterExport: boolean;
 
 	// Graph View Settings
@@ -80,6 +133,12 @@ export class Settings
 	public static graphEdgePruning: number;
 	public static graphMinNodeSize: number;
 	public static graphMaxNodeSize: number;
+	public static graphLocalDepth: number;
+	public static graphStartLocal: boolean;
+	public static graphShowTags: boolean;
+	public static graphShowAttachments: boolean;
+	public static graphColorGroups: string;
+	public static graphPrecomputeLayout: boolean;
 
 	// icons
 	public static showDefaultTreeIcons: boolean;
@@ -91,6 +150,9 @@ export class Settings
 	// Cache
 	public static exportPath: string;
 	public static filesToExport: string[][];
+
+	// Profiles
+	public static exportProfiles: ExportProfile[];
 }
 
 export const DEFAULT_SETTINGS: Settings =
@@ -120,24 +182,46 @@ export const DEFAULT_SETTINGS: Settings =
 	// Export Options
 	logLevel: "warning",
 	minifyHTML: true,
+	writeConcurrency: 8,
 	makeNamesWebStyle: true,
 	onlyExportModified: true,
 	deleteOldFiles: true,
+
+	// Publish Filter
+	excludeUnpublished: false,
+	excludeDrafts: false,
+	excludeTag: '',
+	notExportedLinks: LinkHandling.Keep,
+	unresolvedLinks: LinkHandling.Keep,
 	
 	// Page Features
 	addThemeToggle: true,
 	addOutline: true,
+	addBacklinks: true,
 	addFileNav: true,
 	addSearchBar: true,
+	searchProperties: '',
+	searchLanguage: 'en',
 	addGraphView: true,
 	addTitle: true,
 	addRSSFeed: true,
+	addAtomFeed: false,
+	addJSONFeed: false,
+	scopedFeeds: '',
+	addSitemap: true,
+	addRobotsTxt: false,
+	addContentJSON: false,
+	addTagPages: true,
+	addFolderPages: true,
 
 	// Main Export Options
 	siteURL: '',
 	authorName: '',
 	vaultTitle: app.vault.getName(),
+	siteLanguage: 'en',
+	translationsPath: '',
 	exportPreset: ExportPreset.Website,
+	exportTarget: ExportTarget.Folder,
 	openAfterExport: false,
 
 	// Graph View Settings
@@ -148,6 +232,12 @@ export const DEFAULT_SETTINGS: Settings =
 	graphEdgePruning: 100,
 	graphMinNodeSize: 3,
 	graphMaxNodeSize: 7,
+	graphLocalDepth: 1,
+	graphStartLocal: true,
+	graphShowTags: false,
+	graphShowAttachments: false,
+	graphColorGroups: '',
+	graphPrecomputeLayout: false,
 
 	// icons
 	showDefaultTreeIcons: false,
@@ -159,6 +249,9 @@ export const DEFAULT_SETTINGS: Settings =
 	// Cache
 	exportPath: '',
 	filesToExport: [[]],
+
+	// Profiles
+	exportProfiles: [],
 }
 
 // #endregion
@@ -224,14 +317,66 @@ export class SettingsPage extends PluginSettingTab
 
 			SettingsPage.createToggle(section, 'Theme toggle', () => Settings.addThemeToggle, (value) => Settings.addThemeToggle = value);
 			SettingsPage.createToggle(section, 'Document outline / table of contents', () => Settings.addOutline, (value) => Settings.addOutline = value);
+			SettingsPage.createToggle(section, 'Linked mentions / backlinks', () => Settings.addBacklinks, (value) => Settings.addBacklinks = value,
+							'List the exported notes which link to each page in the right sidebar.');
 			SettingsPage.createToggle(section, 'File navigation tree', () => Settings.addFileNav, (value) => Settings.addFileNav = value);
 			SettingsPage.createToggle(section, 'File & folder icons', () => Settings.showDefaultTreeIcons, (value) => Settings.showDefaultTreeIcons = value);
+			SettingsPage.createToggle(section, 'Tag pages', () => Settings.addTagPages, (value) => Settings.addTagPages = value,
+							'Create a page for every tag listing the notes with that tag, and a page listing all tags.');
+			SettingsPage.createToggle(section, 'Folder pages', () => Settings.addFolderPages, (value) => Settings.addFolderPages = value,
+							'Create an index page for every folder listing its contents. A note with the same name as the folder, or named "index", is shown above the listing.');
 			if (Settings.exportPreset == ExportPreset.Website)
 			{
 				SettingsPage.createToggle(section, 'Search bar', () => Settings.addSearchBar, (value) => Settings.addSearchBar = value);
+				SettingsPage.createText(section, 'Searchable properties', () => Settings.searchProperties, (value) => Settings.searchProperties = value,
+							'Frontmatter properties which are indexed for search, separated by commas. (ex. status, owner) Readers can filter by them with property:value, like status:done.');
+
+				new Setting(section)
+					.setName('Search language')
+					.setDesc('The language used to ignore common words and match different forms of a word. Notes with a "lang" property are indexed in their own language.')
+					.addDropdown((dropdown) =>
+					{
+						for (let [code, name] of Object.entries(SearchLanguage.languageNames)) dropdown.addOption(code, name);
+						dropdown.addOption('none', 'None (only ignore case and accents)');
+						dropdown.setValue(Settings.searchLanguage);
+						dropdown.onChange(async (value) => {
+							Settings.searchLanguage = value;
+							await SettingsPage.saveSettings();
+						});
+					});
 				SettingsPage.createToggle(section, 'Graph view', () => Settings.addGraphView, (value) => Settings.addGraphView = value);
 				let graphViewSection = SettingsPage.createSection(section, 'Graph View Settings', 'Control the behavior of the graph view simulation');
 
+				SettingsPage.createToggle(graphViewSection, 'Show local graph', () => Settings.graphStartLocal, (value) => Settings.graphStartLocal = value,
+							'Show the notes around the current page instead of the whole vault. Readers can switch between the local and the global graph, and their choice is remembered.');
+
+				SettingsPage.createToggle(graphViewSection, 'Show tags', () => Settings.graphShowTags, (value) => Settings.graphShowTags = value,
+							'Add a node for every tag, linked to the notes with that tag.');
+
+				SettingsPage.createToggle(graphViewSection, 'Show attachments', () => Settings.graphShowAttachments, (value) => Settings.graphShowAttachments = value,
+							'Add a node for every exported attachment, linked to the notes embedding it.');
+
+				SettingsPage.createText(graphViewSection, 'Color groups', () => Settings.graphColorGroups, (value) => Settings.graphColorGroups = value,
+							'Color the notes matching a path:, file: or tag: query, separated by commas. (ex. tag:#project #e0a030, path:Daily #5080ff) Leave empty to use the color groups of the vault\'s graph view.',
+							(value) => value.split(",").every((group) => group.trim() == "" || GraphViewOptions.parseColorGroups(group)?.length == 1) ? "" : "Each group must be a query followed by a hex color, like: tag:#project #e0a030");
+
+				SettingsPage.createToggle(graphViewSection, 'Precompute layout', () => Settings.graphPrecomputeLayout, (value) => Settings.graphPrecomputeLayout = value,
+							'Lay out the graph during the export, so it opens settled instead of spreading out from the center. This makes exporting large vaults slower.');
+
+				new Setting(graphViewSection)
+					.setName('Local graph depth')
+					.setDesc("How many links away from the current page can a note of the local graph be?")
+					.addSlider((slider) => slider
+						.setLimits(1, 5, 1)
+						.setValue(Settings.graphLocalDepth)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							Settings.graphLocalDepth = value;
+							await SettingsPage.saveSettings();
+						})
+						.showTooltip()
+					);
+
 				new Setting(graphViewSection)
 					.setName('Attraction Force')
 					.setDesc("How much should linked nodes attract each other? This will make the graph appear more clustered.")
@@ -491,6 +636,48 @@ This feature does not require "File & folder icons" to be enbaled.`);
 		SettingsPage.createToggle(section, 'Minify HTML', () => Settings.minifyHTML, (value) => Settings.minifyHTML = value,
 						'Minify HTML to make it load faster.');
 
+		new Setting(section)
+			.setName('Parallel file writes')
+			.setDesc('How many files can be written to disk at the same time. Lower this if exporting to a slow or network drive.')
+			.addSlider((slider) => slider
+				.setLimits(1, 32, 1)
+				.setValue(Settings.writeConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					Settings.writeConcurrency = value;
+					await SettingsPage.saveSettings();
+				})
+				.showTooltip()
+			);
+		SettingsPage.createToggle(section, 'Exclude unpublished notes', () => Settings.excludeUnpublished, (value) => Settings.excludeUnpublished = value,
+						'Do not export notes with "publish: false" in their frontmatter.');
+		SettingsPage.createToggle(section, 'Exclude drafts', () => Settings.excludeDrafts, (value) => Settings.excludeDrafts = value,
+						'Do not export notes with "draft: true" in their frontmatter.');
+		SettingsPage.createText(section, 'Exclude tag', () => Settings.excludeTag, (value) => Settings.excludeTag = value,
+						'Do not export notes with this tag. (ex. #private)');
+
+		let addLinkHandlingDropdown = (dropdown: DropdownComponent, get: () => LinkHandling, set: (value: LinkHandling) => void) => dropdown
+			.addOption(LinkHandling.Keep, 'Keep the link')
+			.addOption(LinkHandling.PlainText, 'Show as plain text')
+			.addOption(LinkHandling.Missing, 'Show as a missing link')
+			.addOption(LinkHandling.Fail, 'Fail the export')
+			.setValue(get())
+			.onChange(async (value: LinkHandling) =>
+			{
+				set(value);
+				await SettingsPage.saveSettings();
+			});
+
+		new Setting(section)
+			.setName('Links to notes not in the export')
+			.setDesc('What to do with links to files which exist in the vault but are not being exported.')
+			.addDropdown((dropdown) => addLinkHandlingDropdown(dropdown, () => Settings.notExportedLinks, (value) => Settings.notExportedLinks = value));
+
+		new Setting(section)
+			.setName('Unresolved links')
+			.setDesc('What to do with links to files which do not exist.')
+			.addDropdown((dropdown) => addLinkHandlingDropdown(dropdown, () => Settings.unresolvedLinks, (value) => Settings.unresolvedLinks = value));
+
 		new Setting(section)
 			.setName('Log Level')
 			.setDesc('Set the level of logging to display in the export log.')
@@ -508,6 +695,28 @@ This feature does not require "File & folder icons" to be enbaled.`);
 
 		//#endregion
 
+		//#region Export Profiles
+
+		SettingsPage.createDivider(contentEl);
+
+		section = SettingsPage.createSection(contentEl, 'Export Profiles', 'Save named sets of files, export destinations, and options.');
+
+		for (let profile of Settings.exportProfiles)
+		{
+			this.createProfileSettings(section, profile);
+		}
+
+		new Setting(section)
+			.setDesc('Each profile gets its own "Export profile" command. New profiles start with the current files, export path and export mode.')
+			.addButton((button) => button.setButtonText('Add profile').onClick(async () =>
+			{
+				SettingsPage.createProfile();
+				await SettingsPage.saveSettings();
+				this.display();
+			}));
+
+		//#endregion
+
 		//#region Asset Settings
 
 		SettingsPage.createDivider(contentEl);
@@ -564,9 +773,48 @@ This feature does not require "File & folder icons" to be enbaled.`);
 		SettingsPage.createText(section, 'Vault Title', () => Settings.vaultTitle, (value) => Settings.vaultTitle = value,
 					'The title of the vault');
 
+		SettingsPage.createText(section, 'Site language', () => Settings.siteLanguage, (value) => Settings.siteLanguage = value.trim(),
+					`The language code of the site, like "en" or "de-AT". It is set as the language of the pages and translates the buttons, labels and messages of the site. ${Object.values(Translations.languageNames).join(", ")} are included.`,
+					(value) => /^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/.test(value.trim()) ? "" : "Must be a language code, like 'en' or 'pt-BR'");
+
+		SettingsPage.createFileInput(section, () => Settings.translationsPath, (value) => Settings.translationsPath = value,
+		{
+			name: 'Site translations',
+			description: 'A JSON file which replaces the text of the site, like { "searchPlaceholder": "Find..." }. Strings it leaves out use the site language.',
+			placeholder: 'Path to json file...',
+			defaultPath: Path.vaultPath,
+			validation: (path) => path.validate(
+				{
+					allowEmpty: true,
+					allowAbsolute: true,
+					allowRelative: true,
+					allowFiles: true,
+					requireExists: true,
+					requireExtentions: ["json"]
+				}),
+		});
+
 		SettingsPage.createToggle(section, 'Create RSS feed', () => Settings.addRSSFeed, (value) => Settings.addRSSFeed = value,
 					`Create an RSS feed for the website located at ${Settings.siteURL}lib/rss.xml`);
 
+		SettingsPage.createToggle(section, 'Create Atom feed', () => Settings.addAtomFeed, (value) => Settings.addAtomFeed = value,
+					`Create an Atom feed for the website located at ${Settings.siteURL}lib/atom.xml`);
+
+		SettingsPage.createToggle(section, 'Create JSON feed', () => Settings.addJSONFeed, (value) => Settings.addJSONFeed = value,
+					`Create a JSON Feed for the website located at ${Settings.siteURL}lib/feed.json`);
+
+		SettingsPage.createText(section, 'Folder and tag feeds', () => Settings.scopedFeeds, (value) => Settings.scopedFeeds = value,
+					'Folders and tags which get their own feed in addition to the site feed, separated by commas. (ex. Blog, #changelog) A folder note with "feed: true" in its frontmatter also gets a feed for its folder.');
+
+		SettingsPage.createToggle(section, 'Create sitemap', () => Settings.addSitemap, (value) => Settings.addSitemap = value,
+					`Create a sitemap for search engines located at ${Settings.siteURL}sitemap.xml`);
+
+		SettingsPage.createToggle(section, 'Create robots.txt', () => Settings.addRobotsTxt, (value) => Settings.addRobotsTxt = value,
+					'Create a robots.txt file which allows all crawlers and points them to the sitemap.');
+
+		SettingsPage.createToggle(section, 'Create content JSON', () => Settings.addContentJSON, (value) => Settings.addContentJSON = value,
+					'Write a JSON document with the rendered content and metadata of each page, and a content-manifest.json listing them, for use in other front-ends. The "Content API" export mode only writes these documents.');
+
 		let summaryTutorial = new Setting(section)
 		.setName('Metadata Properties')
 		.setDesc(
@@ -608,11 +856,85 @@ Use the 'author' property to set the author of a specific page.`);
 
 	}
 
+	private createProfileSettings(container: HTMLElement, profile: ExportProfile)
+	{
+		let profileSection = SettingsPage.createSection(container, profile.name, `${profile.filesToExport.length} selected item(s) exported to ${profile.exportPath || "an unset path"}`);
+
+		let nameSetting = SettingsPage.createText(profileSection, 'Profile name', () => profile.name, (value) => profile.name = value, '', (value) => value.trim() == "" ? "Profile name cannot be empty" : "");
+		// rename the profile's command once the name is committed instead of on every keystroke
+		(nameSetting.components[0] as TextComponent).inputEl.addEventListener("change", () => SettingsPage.onProfilesChanged());
+
+		new Setting(profileSection)
+			.setName('Export mode')
+			.addDropdown((dropdown) => dropdown
+				.addOption('website', 'Online Web Server')
+				.addOption('documents', 'HTML Documents')
+				.addOption('raw-documents', 'Raw HTML Documents')
+				.addOption('content-api', 'Content API (JSON)')
+				.setValue(profile.exportPreset)
+				.onChange(async (value) =>
+				{
+					profile.exportPreset = value as ExportPreset;
+					await SettingsPage.saveSettings();
+				}));
+
+		SettingsPage.createFileInput(profileSection, () => profile.exportPath, (value) => profile.exportPath = value,
+		{
+			name: 'Export path',
+			placeholder: 'Type or browse an export directory...',
+			defaultPath: Utils.idealDefaultPath(),
+			pickFolder: true,
+			validation: (path) => path.validate(
+				{
+					allowEmpty: true,
+					allowRelative: false,
+					allowAbsolute: true,
+					allowDirectories: true,
+					allowTildeHomeDirectory: true,
+					requireExists: true
+				}),
+		});
+
+		SettingsPage.createText(profileSection, 'Option overrides', () => JSON.stringify(profile.optionOverrides), (value) => profile.optionOverrides = JSON.parse(value || "{}"),
+			'A JSON object of export api options which override the settings for this profile. For example: {"addGraphView": false}',
+			(value) => 
+			{
+				try 
+				{
+					let parsed = JSON.parse(value || "{}");
+					return (typeof parsed == "object" && !Array.isArray(parsed)) ? "" : "Overrides must be a JSON object";
+				}
+				catch
+				{
+					return "Overrides must be valid JSON";
+				}
+			});
+
+		new Setting(profileSection)
+			.addButton((button) => button.setButtonText('Choose files').onClick(async () =>
+			{
+				await SettingsPage.updateSettings(false, undefined, undefined, profile);
+				this.display();
+			}))
+			.addButton((button) => button.setButtonText('Export').setCta().onClick(async () =>
+			{
+				await SettingsPage.exportProfile(profile.id);
+			}))
+			.addExtraButton((button) => button.setIcon('trash').setTooltip('Delete profile').onClick(async () =>
+			{
+				SettingsPage.deleteProfile(profile.id);
+				await SettingsPage.saveSettings();
+				this.display();
+			}));
+	}
+
 	// #region Class Functions and Variables
 
 	static settings: Settings = DEFAULT_SETTINGS;
 	static plugin: Plugin;
 	static loaded = false;
+	static onProfilesChanged: () => void = () => {};
+	static exportProfile: (id: string) => Promise<unknown> = async () => {};
 
 
 	private blacklistedPluginIDs: string[] = [];
@@ -624,9 +946,15 @@ Use the 'author' property to set the author of a specific page.`);
 		return this.blacklistedPluginIDs;
 	}
 
-	constructor(plugin: Plugin) {
+	/**
+	 * @param onProfilesChanged Called when a profile is added, removed or renamed, to update the profile commands.
+	 * @param exportProfile Exports the profile with the given id.
+	 */
+	constructor(plugin: Plugin, onProfilesChanged: () => void, exportProfile: (id: string) => Promise<unknown>) {
 		super(app, plugin);
 		SettingsPage.plugin = plugin;
+		SettingsPage.onProfilesChanged = onProfilesChanged;
+		SettingsPage.exportProfile = exportProfile;
 	}
 
 	static async loadSettings() 
@@ -644,7 +972,8 @@ Use the 'author' property to set the author of a specific page.`);
 	static renameFile(file: TFile, oldPath: string)
 	{
 		let oldPathParsed = new Path(oldPath).asString;
-		Settings.filesToExport.forEach((fileList) =>
+		let fileLists = Settings.filesToExport.concat(Settings.exportProfiles.map((profile) => profile.filesToExport));
+		fileLists.forEach((fileList) =>
 		{
 			let index = fileList.indexOf(oldPathParsed);
 			if (index >= 0)
@@ -656,21 +985,51 @@ Use the 'author' property to set the author of a specific page.`);
 		SettingsPage.saveSettings();
 	}
 
-	static async updateSettings(usePreviousSettings: boolean = false, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined): Promise<ExportInfo | undefined>
+	static getProfile(id: string): ExportProfile | undefined
+	{
+		return Settings.exportProfiles.find((profile) => profile.id == id);
+	}
+
+	static createProfile(name: string = `Profile ${Settings.exportProfiles.length + 1}`): ExportProfile
+	{
+		let profile: ExportProfile = 
+		{
+			id: Date.now().toString(36),
+			name: name,
+			filesToExport: [...Settings.filesToExport[0]],
+			exportPath: Settings.exportPath,
+			exportPreset: Settings.exportPreset,
+			optionOverrides: {},
+		};
+
+		Settings.exportProfiles.push(profile);
+		SettingsPage.onProfilesChanged();
+
+		return profile;
+	}
+
+	static deleteProfile(id: string)
+	{
+		Settings.exportProfiles = Settings.exportProfiles.filter((profile) => profile.id != id);
+		SettingsPage.onProfilesChanged();
+	}
+
+	static async updateSettings(usePreviousSettings: boolean = false, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined, profile: ExportProfile | undefined = undefined): Promise<ExportInfo | undefined>
 	{
 		if (!usePreviousSettings) 
 		{
-			let modal = new ExportModal();
+			let modal = new ExportModal(profile);
 			if(overrideFiles) modal.overridePickedFiles(overrideFiles);
 			return await modal.open();
 		}
 		
-		let files = Settings.filesToExport[0];
-		let path = overrideExportPath ?? new Path(Settings.exportPath);
+		let files = profile?.filesToExport ?? Settings.filesToExport[0];
+		let path = overrideExportPath ?? new Path(profile?.exportPath ?? Settings.exportPath);
 		if ((files.length == 0 && overrideFiles == undefined) || !path.exists || !path.isAbsolute || !path.isDirectory)
 		{
-			new Notice("Please set the export path and files to export in the settings first.", 5000);
-			let modal = new ExportModal();
+			let settingsName = profile ? `the "${profile.name}" profile` : "the settings";
+			new Notice(`Please set the export path and files to export in ${settingsName} first.`, 5000);
+			let modal = new ExportModal(profile);
 			if(overrideFiles) modal.overridePickedFiles(overrideFiles);
 			return await modal.open();
 		}
@@ -678,12 +1037,11 @@ Use the 'author' property to set the author of a specific page.`);
 		return undefined;
 	}
 
-	static getFilesToExport(): TFile[]
+	static getFilesToExport(exportPaths: string[] = Settings.filesToExport[0]): TFile[]
 	{
 		let files: TFile[] = [];
 
 		let allFiles = app.vault.getFiles();
-		let exportPaths = Settings.filesToExport[0];
 		if (!exportPaths) return [];
 
 		for (let path of exportPaths)
@@ -0,0 +1,55 @@
+import { Downloadable } from "./downloadable";
+import { Path } from "./path";
+import { ExportLog } from "scripts/html-generation/render-log";
+
+/**
+ * Writes files to a folder as they are added, with a limited number of writes running at once.
+ */
+export class DownloadQueue
+{
+	public destination: Path;
+	public concurrency: number;
+	public writtenCount: number = 0;
+	private activeWrites: Set<Promise<void>> = new Set();
+
+	/**
+	 * @param destination The absolute path to the folder the files are written to
+	 * @param concurrency The maximum number of files being written at the same time
+	 */
+	constructor(destination: Path, concurrency: number = 8)
+	{
+		this.destination = destination;
+		this.concurrency = Math.max(1, concurrency);
+	}
+
+	/**
+	 * Start writing a file once there is a free slot. Resolves when the write has started, not when it has finished.
+	 * @param onWritten Called after the file has been written, or has failed to write
+	 */
+	public async add(file: Downloadable, onWritten?: (file: Downloadable) => void)
+	{
+		while (this.activeWrites.size >= this.concurrency)
+		{
+			await Promise.race(this.activeWrites);
+		}
+
+		let write: Promise<void> = file.download(this.destination)
+			.catch((e) => ExportLog.error(e.stack, "Could not save file: " + file.filename))
+			.then(() =>
+			{
+				this.writtenCount++;
+				this.activeWrites.delete(write);
+				onWritten?.(file);
+			});
+
+		this.activeWrites.add(write);
+	}
+
+	/**
+	 * Wait for all started writes to finish.
+	 */
+	public async flush()
+	{
+		await Promise.all(this.activeWrites);
+	}
+}
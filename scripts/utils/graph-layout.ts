@@ -0,0 +1,234 @@
+/**
+ * A cell of the quadtree used to approximate the repulsion between nodes.
+ * Leaves hold their nodes, other cells hold the total mass and center of mass of the nodes inside them.
+ */
+interface QuadCell
+{
+	x: number; // the top left corner
+	y: number;
+	size: number;
+	mass: number;
+	centerX: number;
+	centerY: number;
+	children: (QuadCell | undefined)[] | undefined;
+	nodes: number[] | undefined;
+}
+
+export interface GraphLayoutOptions
+{
+	idealLength: number; // the distance linked nodes settle at
+	gravity: number; // how strongly nodes are pulled to the center, keeping unlinked nodes close
+	iterations: number;
+	isCancelled?: () => boolean;
+}
+
+/**
+ * A force directed layout of a graph, computed at export time so the graph view starts from settled positions
+ * instead of spreading out from the center. Repulsion is approximated with a Barnes-Hut quadtree, so large graphs take O(n log n) per iteration.
+ */
+export class GraphLayout
+{
+	private static theta = 0.9; // cells smaller than this fraction of their distance are treated as one node
+	private static maxDepth = 24; // nodes at the same position end up in the same leaf instead of splitting forever
+	private static yieldInterval = 20; // iterations between giving the ui a chance to update
+
+	/**
+	 * Compute the layout of a graph.
+	 * @returns The x and y position of every node, one after the other, or undefined if the layout was cancelled.
+	 */
+	public static async compute(nodeCount: number, linkSources: number[], linkTargets: number[], options: GraphLayoutOptions): Promise<number[] | undefined>
+	{
+		let x = new Float64Array(nodeCount);
+		let y = new Float64Array(nodeCount);
+		let forceX = new Float64Array(nodeCount);
+		let forceY = new Float64Array(nodeCount);
+
+		let length = options.idealLength;
+		let length2 = length * length;
+
+		// start on a sunflower spiral, so the layout is the same every export
+		let goldenAngle = Math.PI * (3 - Math.sqrt(5));
+		for (let i = 0; i < nodeCount; i++)
+		{
+			let radius = length * Math.sqrt(i + 0.5);
+			x[i] = Math.cos(i * goldenAngle) * radius;
+			y[i] = Math.sin(i * goldenAngle) * radius;
+		}
+
+		let startTemperature = length * Math.sqrt(nodeCount);
+		for (let iteration = 0; iteration < options.iterations; iteration++)
+		{
+			if (iteration % this.yieldInterval == 0)
+			{
+				await new Promise((resolve) => setTimeout(resolve, 0));
+				if (options.isCancelled?.()) return undefined;
+			}
+
+			forceX.fill(0);
+			forceY.fill(0);
+
+			let root = this.buildTree(x, y);
+			for (let i = 0; i < nodeCount; i++)
+			{
+				this.addRepulsion(root, i, x, y, forceX, forceY, length2);
+			}
+
+			// linked nodes attract each other with the square of their distance
+			for (let link = 0; link < linkSources.length; link++)
+			{
+				let source = linkSources[link];
+				let target = linkTargets[link];
+				let dx = x[target] - x[source];
+				let dy = y[target] - y[source];
+				let distance = Math.sqrt(dx * dx + dy * dy);
+
+				forceX[source] += dx * distance / length;
+				forceY[source] += dy * distance / length;
+				forceX[target] -= dx * distance / length;
+				forceY[target] -= dy * distance / length;
+			}
+
+			// move each node along its force, at most as far as the temperature allows
+			let temperature = Math.max(startTemperature * (1 - iteration / options.iterations), length * 0.05);
+			for (let i = 0; i < nodeCount; i++)
+			{
+				let fx = forceX[i] - x[i] * options.gravity;
+				let fy = forceY[i] - y[i] * options.gravity;
+				let force = Math.sqrt(fx * fx + fy * fy);
+				if (force == 0) continue;
+
+				let move = Math.min(force, temperature);
+				x[i] += fx / force * move;
+				y[i] += fy / force * move;
+			}
+		}
+
+		let positions: number[] = [];
+		for (let i = 0; i < nodeCount; i++)
+		{
+			positions.push(Math.round(x[i]), Math.round(y[i]));
+		}
+
+		return positions;
+	}
+
+	private static buildTree(x: Float64Array, y: Float64Array): QuadCell
+	{
+		let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+		for (let i = 0; i < x.length; i++)
+		{
+			minX = Math.min(minX, x[i]);
+			minY = Math.min(minY, y[i]);
+			maxX = Math.max(maxX, x[i]);
+			maxY = Math.max(maxY, y[i]);
+		}
+
+		let root = this.createCell(minX, minY, Math.max(maxX - minX, maxY - minY, 1) * 1.001);
+		for (let i = 0; i < x.length; i++)
+		{
+			this.insert(root, i, x, y, 0);
+		}
+
+		return root;
+	}
+
+	private static createCell(x: number, y: number, size: number): QuadCell
+	{
+		return { x: x, y: y, size: size, mass: 0, centerX: 0, centerY: 0, children: undefined, nodes: [] };
+	}
+
+	private static insert(cell: QuadCell, node: number, x: Float64Array, y: Float64Array, depth: number)
+	{
+		// keep the center of mass up to date on the way down
+		cell.centerX = (cell.centerX * cell.mass + x[node]) / (cell.mass + 1);
+		cell.centerY = (cell.centerY * cell.mass + y[node]) / (cell.mass + 1);
+		cell.mass++;
+
+		if (cell.nodes)
+		{
+			if (cell.nodes.length == 0 || depth >= this.maxDepth)
+			{
+				cell.nodes.push(node);
+				return;
+			}
+
+			// split the leaf, moving its node into a child
+			let existing = cell.nodes;
+			cell.nodes = undefined;
+			cell.children = [undefined, undefined, undefined, undefined];
+			for (let other of existing)
+			{
+				this.insertIntoChild(cell, other, x, y, depth);
+			}
+		}
+
+		this.insertIntoChild(cell, node, x, y, depth);
+	}
+
+	private static insertIntoChild(cell: QuadCell, node: number, x: Float64Array, y: Float64Array, depth: number)
+	{
+		let half = cell.size / 2;
+		let right = x[node] >= cell.x + half ? 1 : 0;
+		let bottom = y[node] >= cell.y + half ? 1 : 0;
+		let index = right + bottom * 2;
+
+		let children = cell.children as (QuadCell | undefined)[];
+		let child = children[index] ?? (children[index] = this.createCell(cell.x + right * half, cell.y + bottom * half, half));
+		this.insert(child, node, x, y, depth + 1);
+	}
+
+	/**
+	 * Add the repulsion of every other node to a node, where nodes repel each other with the inverse of their distance.
+	 */
+	private static addRepulsion(root: QuadCell, node: number, x: Float64Array, y: Float64Array, forceX: Float64Array, forceY: Float64Array, length2: number)
+	{
+		let theta2 = this.theta * this.theta;
+		let stack = [root];
+
+		while (stack.length > 0)
+		{
+			let cell = stack.pop() as QuadCell;
+
+			if (cell.nodes)
+			{
+				for (let other of cell.nodes)
+				{
+					if (other == node) continue;
+
+					let dx = x[node] - x[other];
+					let dy = y[node] - y[other];
+					let distance2 = dx * dx + dy * dy;
+
+					// push nodes at the same position apart in a direction which depends on their order
+					if (distance2 < 0.01)
+					{
+						dx = node < other ? -0.1 : 0.1;
+						dy = (node + other) % 2 == 0 ? 0.1 : -0.1;
+						distance2 = 0.02;
+					}
+
+					forceX[node] += dx * length2 / distance2;
+					forceY[node] += dy * length2 / distance2;
+				}
+
+				continue;
+			}
+
+			let dx = x[node] - cell.centerX;
+			let dy = y[node] - cell.centerY;
+			let distance2 = dx * dx + dy * dy;
+
+			if (cell.size * cell.size < theta2 * distance2)
+			{
+				forceX[node] += dx * length2 * cell.mass / distance2;
+				forceY[node] += dy * length2 * cell.mass / distance2;
+				continue;
+			}
+
+			for (let child of cell.children ?? [])
+			{
+				if (child) stack.push(child);
+			}
+		}
+	}
+}
@@ -0,0 +1,239 @@
+//#region -----------------     Folding     -----------------
+
+const specialFolds: {[char: string]: string} = { "ß": "ss", "æ": "ae", "œ": "oe", "ø": "o", "đ": "d", "ł": "l", "þ": "th", "ı": "i" };
+
+//#endregion
+
+//#region -----------------     English     -----------------
+
+// Porter stemmer, see https://tartarus.org/martin/PorterStemmer/
+const porterStep2: {[suffix: string]: string} = { ational: "ate", tional: "tion", enci: "ence", anci: "ance", izer: "ize", bli: "ble", alli: "al", entli: "ent", eli: "e", ousli: "ous", ization: "ize", ation: "ate", ator: "ate", alism: "al", iveness: "ive", fulness: "ful", ousness: "ous", aliti: "al", iviti: "ive", biliti: "ble", logi: "log" };
+const porterStep3: {[suffix: string]: string} = { icate: "ic", ative: "", alize: "al", iciti: "ic", ical: "ic", ful: "", ness: "" };
+
+const consonant = "[^aeiou]";
+const vowel = "[aeiouy]";
+const consonants = consonant + "[^aeiouy]*";
+const vowels = vowel + "[aeiou]*";
+
+const measureAbove0 = new RegExp("^(" + consonants + ")?" + vowels + consonants);
+const measureIs1 = new RegExp("^(" + consonants + ")?" + vowels + consonants + "(" + vowels + ")?$");
+const measureAbove1 = new RegExp("^(" + consonants + ")?" + vowels + consonants + vowels + consonants);
+const hasVowel = new RegExp("^(" + consonants + ")?" + vowel);
+const endsWithCVC = new RegExp("^" + consonants + vowel + "[^aeiouwxy]$");
+
+function stemEnglish(word: string): string
+{
+	if (word.length < 3) return word;
+
+	let match: RegExpExecArray | null;
+
+	// a leading y is a consonant
+	const startsWithY = word[0] == "y";
+	if (startsWithY) word = "Y" + word.substring(1);
+
+	// step 1a: plurals
+	match = /^(.+?)(ss|i)es$/.exec(word) ?? /^(.+?)([^s])s$/.exec(word);
+	if (match) word = match[1] + match[2];
+
+	// step 1b: past tense and progressive forms
+	match = /^(.+?)eed$/.exec(word);
+	if (match)
+	{
+		if (measureAbove0.test(match[1])) word = word.slice(0, -1);
+	}
+	else
+	{
+		match = /^(.+?)(ed|ing)$/.exec(word);
+		if (match && hasVowel.test(match[1]))
+		{
+			word = match[1];
+			if (/(at|bl|iz)$/.test(word)) word += "e";
+			else if (/([^aeiouylsz])\1$/.test(word)) word = word.slice(0, -1);
+			else if (endsWithCVC.test(word)) word += "e";
+		}
+	}
+
+	// step 1c
+	match = /^(.+?)y$/.exec(word);
+	if (match && hasVowel.test(match[1])) word = match[1] + "i";
+
+	// step 2 and 3: double and single suffixes
+	match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(word);
+	if (match && measureAbove0.test(match[1]))
+	{
+		word = match[1] + porterStep2[match[2]];
+	}
+
+	match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(word);
+	if (match && measureAbove0.test(match[1]))
+	{
+		word = match[1] + porterStep3[match[2]];
+	}
+
+	// step 4: remaining suffixes
+	match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(word);
+	if (match)
+	{
+		if (measureAbove1.test(match[1])) word = match[1];
+	}
+	else
+	{
+		match = /^(.+?)(s|t)(ion)$/.exec(word);
+		if (match && measureAbove1.test(match[1] + match[2])) word = match[1] + match[2];
+	}
+
+	// step 5: final e and double l
+	match = /^(.+?)e$/.exec(word);
+	if (match)
+	{
+		const stem = match[1];
+		if (measureAbove1.test(stem) || (measureIs1.test(stem) && !endsWithCVC.test(stem))) word = stem;
+	}
+
+	if (/ll$/.test(word) && measureAbove1.test(word)) word = word.slice(0, -1);
+
+	if (startsWithY) word = "y" + word.substring(1);
+	return word;
+}
+
+//#endregion
+
+//#region -----------------     German      -----------------
+
+// light stemmer by Jacques Savoy, which only removes inflections
+function stemGerman(word: string): string
+{
+	let length = word.length;
+	const endsWith = (suffix: string) => word.substring(0, length).endsWith(suffix);
+
+	if (length > 5 && endsWith("ern")) length -= 3;
+	else if (length > 4 && (endsWith("em") || endsWith("en") || endsWith("er") || endsWith("es"))) length -= 2;
+	else if (length > 3 && endsWith("e")) length -= 1;
+	else if (length > 3 && endsWith("s") && "bdfghklmnrt".includes(word[length - 2])) length -= 1;
+
+	if (length > 5 && endsWith("est")) length -= 3;
+	else if (length > 4 && (endsWith("er") || endsWith("en"))) length -= 2;
+	else if (length > 5 && endsWith("st") && "bdfghklmnt".includes(word[length - 3])) length -= 2;
+
+	return word.substring(0, length);
+}
+
+//#endregion
+
+//#region -----------------     French      -----------------
+
+// minimal stemmer by Jacques Savoy, which removes plurals and feminine forms, extended with adverbs
+function stemFrench(word: string): string
+{
+	if (word.length < 6) return word;
+
+	if (word.endsWith("x"))
+	{
+		// chevaux -> cheval
+		if (word.endsWith("aux")) return word.slice(0, -2) + "l";
+		return word.slice(0, -1);
+	}
+
+	if (word.length > 8 && word.endsWith("ement")) return word.slice(0, -5);
+
+	if (word.endsWith("s")) word = word.slice(0, -1);
+	if (word.endsWith("r")) word = word.slice(0, -1);
+	if (word.endsWith("e")) word = word.slice(0, -1);
+
+	const last = word[word.length - 1];
+	if (last == word[word.length - 2] && /[a-z]/.test(last)) word = word.slice(0, -1);
+
+	return word;
+}
+
+//#endregion
+
+//#region -----------------     Languages     -----------------
+
+const languages: {[code: string]: {name: string, stopWords: Set<string>, stem: (word: string) => string}} =
+{
+	en:
+	{
+		name: "English",
+		stopWords: new Set(["a", "about", "actually", "almost", "also", "although", "always", "am", "an", "and", "any", "are", "as", "at", "be", "became", "become", "but", "by", "can", "could", "did", "do", "does", "each", "either", "else", "for", "from", "had", "has", "have", "hence", "how", "i", "if", "in", "is", "it", "its", "just", "may", "maybe", "me", "might", "mine", "must", "my", "neither", "nor", "not", "of", "oh", "ok", "the", "to", "when", "where", "whereas", "wherever", "whenever", "whether", "which", "while", "who", "whom", "whoever", "whose", "why", "will", "with", "within", "without", "would", "yes", "yet", "you", "your"]),
+		stem: stemEnglish
+	},
+	de:
+	{
+		name: "German",
+		stopWords: new Set(["aber", "alle", "allem", "allen", "aller", "alles", "als", "also", "am", "an", "ander", "andere", "auch", "auf", "aus", "bei", "bin", "bis", "bist", "da", "damit", "dann", "das", "dass", "dein", "dem", "den", "der", "des", "dich", "die", "dir", "doch", "dort", "du", "durch", "ein", "eine", "einem", "einen", "einer", "eines", "er", "es", "euch", "euer", "fur", "hab", "habe", "haben", "hat", "hatte", "ich", "ihm", "ihn", "ihr", "im", "in", "ins", "ist", "ja", "jede", "jedem", "jeden", "jeder", "jedes", "kann", "kein", "keine", "man", "mein", "meine", "mich", "mir", "mit", "nach", "nicht", "noch", "nun", "nur", "ob", "oder", "ohne", "sehr", "sein", "seine", "sich", "sie", "sind", "so", "soll", "um", "und", "uns", "unser", "unter", "uber", "vom", "von", "vor", "war", "waren", "was", "weil", "wenn", "wer", "wie", "wir", "wird", "wo", "zu", "zum", "zur"]),
+		stem: stemGerman
+	},
+	fr:
+	{
+		name: "French",
+		stopWords: new Set(["a", "ai", "as", "au", "aussi", "aux", "avec", "avez", "avoir", "avons", "c", "ce", "ces", "cette", "comme", "d", "dans", "de", "des", "du", "elle", "elles", "en", "est", "et", "etait", "etre", "ete", "eux", "il", "ils", "j", "je", "l", "la", "le", "les", "leur", "leurs", "lui", "m", "ma", "mais", "me", "mes", "moi", "mon", "n", "ne", "nos", "notre", "nous", "on", "ont", "ou", "par", "pas", "plus", "pour", "qu", "que", "qui", "s", "sa", "sans", "se", "ses", "si", "son", "sont", "sous", "sur", "t", "ta", "te", "tes", "toi", "ton", "tu", "un", "une", "vos", "votre", "vous", "y"]),
+		stem: stemFrench
+	},
+};
+
+//#endregion
+
+/**
+ * The term processing of the search index, shared by the exporter and the website so queries are processed exactly like the pages were.
+ * Terms are lowercased, folded to plain letters ("Übersicht" -> "ubersicht"), dropped if they are a stop word of their language, and stemmed.
+ * The website loads this module as a script, see AssetHandler.searchLanguageJS.
+ */
+export class SearchLanguage
+{
+	/**
+	 * The names of the supported languages by their code.
+	 */
+	public static languageNames: {[code: string]: string} = Object.fromEntries(Object.entries(languages).map(([code, language]) => [code, language.name]));
+
+	/**
+	 * Remove the accents of a lowercase text, and replace letters which have no accent to remove.
+	 */
+	public static fold(text: string): string
+	{
+		return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[ßæœøđłþı]/g, (char) => specialFolds[char]);
+	}
+
+	/**
+	 * Get the supported language of a language code like "de" or "de-AT".
+	 * Returns "none" for "none", which only lowercases and folds terms, and undefined for unsupported languages.
+	 */
+	public static getLanguage(code: unknown): string | undefined
+	{
+		if (typeof code != "string") return undefined;
+		let language = code.trim().toLowerCase().split(/[-_]/)[0];
+		if (language == "none" || languages[language]) return language;
+		return undefined;
+	}
+
+	/**
+	 * Process a term of a page written in a language. Returns null for stop words.
+	 */
+	public static processTerm(term: string, language: string): string | null
+	{
+		term = SearchLanguage.fold(term.toLowerCase());
+
+		const rules = languages[language];
+		if (!rules) return term;
+		if (rules.stopWords.has(term)) return null;
+		return rules.stem(term);
+	}
+
+	/**
+	 * Process a term of a query for pages written in any of the given languages.
+	 * Returns the different forms of the term, or null if it is a stop word in all of them.
+	 */
+	public static processQueryTerm(term: string, languageList: string[]): string[] | null
+	{
+		if (!languageList || languageList.length == 0) languageList = ["none"];
+
+		const terms: string[] = [];
+		for (const language of languageList)
+		{
+			const processed = SearchLanguage.processTerm(term, language);
+			if (processed && !terms.includes(processed)) terms.push(processed);
+		}
+
+		return terms.length > 0 ? terms : null;
+	}
+}
@@ -0,0 +1,219 @@
+import { Path } from "./path";
+import { ExportLog } from "scripts/html-generation/render-log";
+
+/**
+ * Every user-facing string of the generated site.
+ * Placeholders like {link} are replaced with Translations.format.
+ */
+export interface SiteStrings
+{
+	searchPlaceholder: string;
+	clearSearch: string;
+	tableOfContents: string;
+	collapseAll: string;
+	interactiveGraph: string;
+	expandGraph: string;
+	localGraph: string;
+	linkedMentions: string;
+	noBacklinks: string;
+	missingLink: string; // {link}
+	unpublishedLink: string; // {link}
+	tags: string;
+	noteTagged: string; // {count}, {tag}
+	notesTagged: string; // {count}, {tag}
+	nestedTags: string;
+	pageNotFound: string;
+	copyCode: string;
+	codeCopied: string;
+}
+
+const english: SiteStrings =
+{
+	searchPlaceholder: "Search...",
+	clearSearch: "Clear search",
+	tableOfContents: "Table Of Contents",
+	collapseAll: "Collapse All",
+	interactiveGraph: "Interactive Graph",
+	expandGraph: "Expand",
+	localGraph: "Local graph",
+	linkedMentions: "Linked mentions",
+	noBacklinks: "No backlinks found.",
+	missingLink: "{link} does not exist",
+	unpublishedLink: "{link} is not published",
+	tags: "Tags",
+	noteTagged: "{count} note tagged with {tag}",
+	notesTagged: "{count} notes tagged with {tag}",
+	nestedTags: "Nested tags:",
+	pageNotFound: "Page Not Found",
+	copyCode: "Copy",
+	codeCopied: "Copied!",
+};
+
+const locales: {[code: string]: {name: string, strings: SiteStrings}} =
+{
+	en: { name: "English", strings: english },
+	es:
+	{
+		name: "Spanish",
+		strings:
+		{
+			searchPlaceholder: "Buscar...",
+			clearSearch: "Borrar búsqueda",
+			tableOfContents: "Tabla de contenidos",
+			collapseAll: "Contraer todo",
+			interactiveGraph: "Grafo interactivo",
+			expandGraph: "Expandir",
+			localGraph: "Grafo local",
+			linkedMentions: "Menciones enlazadas",
+			noBacklinks: "No se encontraron retroenlaces.",
+			missingLink: "{link} no existe",
+			unpublishedLink: "{link} no está publicado",
+			tags: "Etiquetas",
+			noteTagged: "{count} nota con la etiqueta {tag}",
+			notesTagged: "{count} notas con la etiqueta {tag}",
+			nestedTags: "Etiquetas anidadas:",
+			pageNotFound: "Página no encontrada",
+			copyCode: "Copiar",
+			codeCopied: "¡Copiado!",
+		}
+	},
+	de:
+	{
+		name: "German",
+		strings:
+		{
+			searchPlaceholder: "Suchen...",
+			clearSearch: "Suche leeren",
+			tableOfContents: "Inhaltsverzeichnis",
+			collapseAll: "Alle einklappen",
+			interactiveGraph: "Interaktiver Graph",
+			expandGraph: "Vergrößern",
+			localGraph: "Lokaler Graph",
+			linkedMentions: "Verlinkte Erwähnungen",
+			noBacklinks: "Keine Rückverweise gefunden.",
+			missingLink: "{link} existiert nicht",
+			unpublishedLink: "{link} ist nicht veröffentlicht",
+			tags: "Tags",
+			noteTagged: "{count} Notiz mit dem Tag {tag}",
+			notesTagged: "{count} Notizen mit dem Tag {tag}",
+			nestedTags: "Untergeordnete Tags:",
+			pageNotFound: "Seite nicht gefunden",
+			copyCode: "Kopieren",
+			codeCopied: "Kopiert!",
+		}
+	},
+	fr:
+	{
+		name: "French",
+		strings:
+		{
+			searchPlaceholder: "Rechercher...",
+			clearSearch: "Effacer la recherche",
+			tableOfContents: "Table des matières",
+			collapseAll: "Tout replier",
+			interactiveGraph: "Graphe interactif",
+			expandGraph: "Agrandir",
+			localGraph: "Graphe local",
+			linkedMentions: "Mentions liées",
+			noBacklinks: "Aucun rétrolien trouvé.",
+			missingLink: "{link} n'existe pas",
+			unpublishedLink: "{link} n'est pas publié",
+			tags: "Étiquettes",
+			noteTagged: "{count} note avec l'étiquette {tag}",
+			notesTagged: "{count} notes avec l'étiquette {tag}",
+			nestedTags: "Étiquettes imbriquées :",
+			pageNotFound: "Page introuvable",
+			copyCode: "Copier",
+			codeCopied: "Copié !",
+		}
+	},
+};
+
+/**
+ * The translation table of the generated site.
+ * English, Spanish, German and French are bundled, and any string can be overridden by a JSON file mapping the string ids to text.
+ */
+export class Translations
+{
+	/**
+	 * The names of the bundled languages by their code.
+	 */
+	public static get languageNames(): {[code: string]: string}
+	{
+		return Object.fromEntries(Object.entries(locales).map(([code, locale]) => [code, locale.name]));
+	}
+
+	/**
+	 * Get the strings of the bundled language matching a language code like "de" or "de-AT".
+	 * Languages which are not bundled use English.
+	 */
+	public static getBundledStrings(language: string | undefined): SiteStrings
+	{
+		let code = (language ?? "").trim().toLowerCase().split(/[-_]/)[0];
+		return Object.assign({}, english, locales[code]?.strings);
+	}
+
+	/**
+	 * Get the strings of a language, with the strings of the translations file replacing the bundled ones.
+	 * @param translationsPath A JSON file of string ids and their text, or an empty string to only use the bundled strings.
+	 */
+	public static async loadStrings(language: string | undefined, translationsPath: string | undefined): Promise<SiteStrings>
+	{
+		let strings = this.getBundledStrings(language);
+		if (!translationsPath) return strings;
+
+		let path = new Path(translationsPath);
+		let content = await path.readFileString();
+		if (content == undefined)
+		{
+			ExportLog.warning(`Could not read the translations file at ${path.asString}. The bundled translations are used.`);
+			return strings;
+		}
+
+		let overrides: unknown;
+		try
+		{
+			overrides = JSON.parse(content);
+		}
+		catch (e)
+		{
+			ExportLog.warning(e, `Failed to parse the translations file at ${path.asString}. The bundled translations are used.`);
+			return strings;
+		}
+
+		if (typeof overrides != "object" || overrides == null || Array.isArray(overrides))
+		{
+			ExportLog.warning(`The translations file at ${path.asString} does not contain an object of strings. The bundled translations are used.`);
+			return strings;
+		}
+
+		for (let [key, text] of Object.entries(overrides as {[key: string]: unknown}))
+		{
+			if (!(key in english) || typeof text != "string")
+			{
+				ExportLog.warning(`Ignoring "${key}" in the translations file. It is not a known string id, or its value is not text.`);
+				continue;
+			}
+
+			strings[key as keyof SiteStrings] = text;
+		}
+
+		return strings;
+	}
+
+	/**
+	 * Replace the {name} placeholders of a string with their values.
+	 */
+	public static format(text: string, values: {[name: string]: string | number}): string
+	{
+		return text.replace(/\{(\w+)\}/g, (match, name) => name in values ? values[name].toString() : match);
+	}
+
+	/**
+	 * Get the script which gives the strings to the website's runtime.
+	 */
+	public static getExportData(strings: SiteStrings): string
+	{
+		return `let siteStrings=\n${JSON.stringify(strings)};`;
+	}
+}
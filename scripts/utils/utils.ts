@@ -2,7 +2,9 @@ import {  MarkdownView, PluginManifest, TextFileView } from 'obsidian';
 import { Path } from './path';
 import { ExportLog } from '../html-generation/render-log';
 import { Downloadable } from './downloadable';
+import { DownloadQueue } from './download-queue';
 import { Settings, SettingsPage } from 'scripts/settings/settings';
+import { createHash } from 'crypto';
 
 /* @ts-ignore */
 const dialog: Electron.Dialog = require('electron').remote.dialog;
@@ -14,6 +16,14 @@ export class Utils
 		return new Promise( resolve => setTimeout(resolve, ms) );
 	}
 
+	/**
+	 * Get the sha256 hash of a string or buffer as a hex string.
+	 */
+	static hash(content: string | Buffer): string
+	{
+		return createHash("sha256").update(typeof content == "string" ? content : new Uint8Array(content)).digest("hex");
+	}
+
 	static padStringBeggining(str: string, length: number, char: string)
 	{
 		return char.repeat(length - str.length) + str;
@@ -164,27 +174,19 @@ export class Utils
 		return Path.vaultPath;
 	}
 
-	static async downloadFiles(files: Downloadable[], rootPath: Path)
+	static async downloadFiles(files: Downloadable[], rootPath: Path, concurrency: number = Settings.writeConcurrency)
 	{
 		if (!rootPath.isAbsolute) throw new Error("folderPath must be absolute: " + rootPath.asString);
 
 		ExportLog.progress(0, files.length, "Saving HTML files to disk", "...", "var(--color-green)");
 		
-		for (let i = 0; i < files.length; i++)
+		let queue = new DownloadQueue(rootPath.directory, concurrency);
+		for (let file of files)
 		{
-			let file = files[i];
-
-			try
-			{
-				await file.download(rootPath.directory);
-				ExportLog.progress(i+1, files.length, "Saving HTML files to disk", "Saving: " + file.filename, "var(--color-green)");
-			}
-			catch (e)
-			{
-				ExportLog.error(e.stack, "Could not save file: " + file.filename);
-				continue;
-			}
+			await queue.add(file, (file) => ExportLog.progress(queue.writtenCount, files.length, "Saving HTML files to disk", "Saving: " + file.filename, "var(--color-green)"));
 		}
+
+		await queue.flush();
 	}
 
 	//async function that awaits until a condition is met
@@ -0,0 +1,327 @@
+import { promises as fs } from 'fs';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Path } from './path';
+import { ExportLog } from 'scripts/html-generation/render-log';
+
+/**
+ * A file to write into a zip archive
+ */
+export interface ZipEntry
+{
+	path: string; // the path inside the archive, using forward slashes
+	content?: string | Buffer; // if undefined the file is read from sourcePath
+	sourcePath?: string;
+	modifiedTime?: number; // if undefined the time from the file system is used
+	store?: boolean; // write the file without compression
+}
+
+/**
+ * Reads and writes zip archives, using zlib for compression.
+ * Zip64 is not supported, so archives are limited to 65534 files and 4GB, and larger archives fail with an error instead of being written.
+ */
+export class ZipArchive
+{
+	private static crcTable: Uint32Array | undefined = undefined;
+
+	/**
+	 * Get the path of the archive an export to the given folder is written to. ("path/to/site" -> "path/to/site.zip")
+	 * @param extension The extension of the archive, for zip based formats such as epub
+	 */
+	public static getArchivePath(destination: Path, extension: string = "zip"): Path
+	{
+		let folder = destination.copy.makeUnixStyle().asString.replace(/\/+$/, "");
+		return new Path(folder + "." + extension);
+	}
+
+	/**
+	 * Create an empty temporary folder to stage the files of an archive in.
+	 */
+	public static async createStagingFolder(): Promise<Path>
+	{
+		let folder = await fs.mkdtemp(join(tmpdir(), "webpage-html-export-"));
+		return new Path(folder + "/");
+	}
+
+	/**
+	 * Write every file in a folder into a zip archive, replacing the archive if it exists.
+	 * @param folder The absolute path of the folder to pack
+	 * @param archivePath The absolute path of the zip file
+	 * @param modifiedTimes The modified time to store for files by their path relative to the folder. Other files use the time from the file system.
+	 */
+	public static async pack(folder: Path, archivePath: Path, modifiedTimes: Map<string, number> = new Map())
+	{
+		let files = await ZipArchive.listFiles(folder.asString, "");
+		let entries: ZipEntry[] = files.map((relativePath) =>
+		({
+			path: relativePath,
+			sourcePath: join(folder.asString, relativePath),
+			modifiedTime: modifiedTimes.get(relativePath),
+		}));
+
+		await ZipArchive.write(archivePath, entries);
+	}
+
+	/**
+	 * Write a list of files into a zip archive in the given order, replacing the archive if it exists.
+	 * File contents are read one at a time, so only the central directory is kept in memory.
+	 * The archive is written next to the old one first, so the old archive is kept if writing fails.
+	 */
+	public static async write(archivePath: Path, entries: ZipEntry[])
+	{
+		if (entries.length >= 0xFFFF) throw new Error(`Cannot zip more than 65534 files, the export contains ${entries.length} files`);
+
+		await archivePath.directory.createDirectory();
+		let tempPath = archivePath.asString + ".tmp";
+		let handle = await fs.open(tempPath, "w");
+		let centralDirectory: Buffer[] = [];
+		let offset = 0;
+
+		try
+		{
+			for (let i = 0; i < entries.length; i++)
+			{
+				let entry = entries[i];
+				ExportLog.progress(i, entries.length, "Creating Zip Archive", "Adding: " + entry.path, "var(--color-green)");
+
+				let data: Buffer;
+				if (entry.content != undefined) data = typeof entry.content == "string" ? Buffer.from(entry.content, "utf8") : entry.content;
+				else if (entry.sourcePath) data = await fs.readFile(entry.sourcePath);
+				else throw new Error("Zip entry has no content: " + entry.path);
+
+				let mtime = entry.modifiedTime || (entry.sourcePath ? (await fs.stat(entry.sourcePath)).mtimeMs : Date.now());
+
+				let compressed = entry.store ? data : deflateRawSync(ZipArchive.toBytes(data));
+				let useDeflate = compressed.length < data.length;
+				let content = useDeflate ? compressed : data;
+
+				let name = Buffer.from(entry.path, "utf8");
+				let { time, date } = ZipArchive.toDosTime(new Date(mtime));
+				let crc = ZipArchive.crc32(data);
+
+				if (data.length >= 0xFFFFFFFF || offset + 30 + name.length + content.length >= 0xFFFFFFFF)
+					throw new Error(`Cannot create a zip archive larger than 4GB, the archive is too large at ${entry.path}`);
+
+				let localHeader = Buffer.alloc(30);
+				localHeader.writeUInt32LE(0x04034b50, 0);
+				localHeader.writeUInt16LE(20, 4); // version needed
+				localHeader.writeUInt16LE(0x0800, 6); // utf-8 file names
+				localHeader.writeUInt16LE(useDeflate ? 8 : 0, 8);
+				localHeader.writeUInt16LE(time, 10);
+				localHeader.writeUInt16LE(date, 12);
+				localHeader.writeUInt32LE(crc, 14);
+				localHeader.writeUInt32LE(content.length, 18);
+				localHeader.writeUInt32LE(data.length, 22);
+				localHeader.writeUInt16LE(name.length, 26);
+				localHeader.writeUInt16LE(0, 28);
+
+				let centralHeader = Buffer.alloc(46);
+				centralHeader.writeUInt32LE(0x02014b50, 0);
+				centralHeader.writeUInt16LE(20, 4); // version made by
+				centralHeader.writeUInt16LE(20, 6); // version needed
+				centralHeader.writeUInt16LE(0x0800, 8);
+				centralHeader.writeUInt16LE(useDeflate ? 8 : 0, 10);
+				centralHeader.writeUInt16LE(time, 12);
+				centralHeader.writeUInt16LE(date, 14);
+				centralHeader.writeUInt32LE(crc, 16);
+				centralHeader.writeUInt32LE(content.length, 20);
+				centralHeader.writeUInt32LE(data.length, 24);
+				centralHeader.writeUInt16LE(name.length, 28);
+				centralHeader.writeUInt32LE(offset, 42);
+				centralDirectory.push(centralHeader, name);
+
+				await handle.write(ZipArchive.toBytes(localHeader));
+				await handle.write(ZipArchive.toBytes(name));
+				await handle.write(ZipArchive.toBytes(content));
+				offset += localHeader.length + name.length + content.length;
+			}
+
+			let centralDirectoryData = Buffer.concat(centralDirectory.map(ZipArchive.toBytes));
+			if (offset + centralDirectoryData.length >= 0xFFFFFFFF) throw new Error("Cannot create a zip archive larger than 4GB");
+
+			let end = Buffer.alloc(22);
+			end.writeUInt32LE(0x06054b50, 0);
+			end.writeUInt16LE(entries.length, 8);
+			end.writeUInt16LE(entries.length, 10);
+			end.writeUInt32LE(centralDirectoryData.length, 12);
+			end.writeUInt32LE(offset, 16);
+
+			await handle.write(ZipArchive.toBytes(centralDirectoryData));
+			await handle.write(ZipArchive.toBytes(end));
+			await handle.close();
+			await fs.rename(tempPath, archivePath.asString);
+		}
+		catch (e)
+		{
+			await handle.close();
+			await fs.rm(tempPath, { force: true });
+			throw e;
+		}
+	}
+
+	/**
+	 * Extract every file of a zip archive into a folder, keeping their modified times.
+	 * Entries are read from the file one at a time, so the archive is never loaded into memory as a whole.
+	 * @returns false if the archive could not be read
+	 */
+	public static async unpack(archivePath: Path, folder: Path): Promise<boolean>
+	{
+		let handle: fs.FileHandle;
+		try
+		{
+			handle = await fs.open(archivePath.asString, "r");
+		}
+		catch (e)
+		{
+			ExportLog.error(e, "Could not open zip archive: " + archivePath.asString);
+			return false;
+		}
+
+		try
+		{
+			// the end of central directory record is at the end of the file, followed by a comment of up to 65535 bytes
+			let size = (await handle.stat()).size;
+			let tailLength = Math.min(size, 22 + 0xFFFF);
+			let tail = await ZipArchive.read(handle, size - tailLength, tailLength);
+			let endOffset = -1;
+			for (let i = tail.length - 22; i >= 0; i--)
+			{
+				if (tail.readUInt32LE(i) == 0x06054b50)
+				{
+					endOffset = i;
+					break;
+				}
+			}
+
+			if (endOffset == -1)
+			{
+				ExportLog.error(archivePath.asString, "Could not read zip archive");
+				return false;
+			}
+
+			let entryCount = tail.readUInt16LE(endOffset + 10);
+			let directorySize = tail.readUInt32LE(endOffset + 12);
+			let directoryOffset = tail.readUInt32LE(endOffset + 16);
+			if (entryCount == 0xFFFF || directorySize == 0xFFFFFFFF || directoryOffset == 0xFFFFFFFF)
+			{
+				ExportLog.error(archivePath.asString, "Zip64 archives are not supported, move or delete the archive to export again");
+				return false;
+			}
+
+			let directory = await ZipArchive.read(handle, directoryOffset, directorySize);
+			let offset = 0;
+			for (let i = 0; i < entryCount; i++)
+			{
+				if (offset + 46 > directory.length || directory.readUInt32LE(offset) != 0x02014b50)
+				{
+					ExportLog.error(archivePath.asString, "Invalid zip archive");
+					return false;
+				}
+
+				let method = directory.readUInt16LE(offset + 10);
+				let time = directory.readUInt16LE(offset + 12);
+				let date = directory.readUInt16LE(offset + 14);
+				let compressedSize = directory.readUInt32LE(offset + 20);
+				let nameLength = directory.readUInt16LE(offset + 28);
+				let extraLength = directory.readUInt16LE(offset + 30);
+				let commentLength = directory.readUInt16LE(offset + 32);
+				let localOffset = directory.readUInt32LE(offset + 42);
+				let name = directory.toString("utf8", offset + 46, offset + 46 + nameLength);
+				offset += 46 + nameLength + extraLength + commentLength;
+
+				if (compressedSize == 0xFFFFFFFF || localOffset == 0xFFFFFFFF)
+				{
+					ExportLog.error(archivePath.asString, "Zip64 archives are not supported, move or delete the archive to export again");
+					return false;
+				}
+
+				ExportLog.progress(i, entryCount, "Reading Zip Archive", "Extracting: " + name, "var(--color-yellow)");
+				if (name.endsWith("/")) continue;
+
+				let localHeader = await ZipArchive.read(handle, localOffset, 30);
+				let dataOffset = localOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+				let content = await ZipArchive.read(handle, dataOffset, compressedSize);
+				let data = method == 8 ? inflateRawSync(ZipArchive.toBytes(content)) : content;
+
+				// don't let entries escape the folder
+				let relativePath = name.split("/").filter((part) => part != "" && part != "." && part != "..").join("/");
+				let filePath = folder.joinString(relativePath);
+				await filePath.writeFile(ZipArchive.toBytes(data));
+
+				let mtime = ZipArchive.fromDosTime(time, date);
+				await fs.utimes(filePath.asString, mtime, mtime);
+			}
+
+			return true;
+		}
+		finally
+		{
+			await handle.close();
+		}
+	}
+
+	private static async read(handle: fs.FileHandle, position: number, length: number): Promise<Buffer>
+	{
+		let buffer = Buffer.alloc(length);
+		let { bytesRead } = await handle.read(ZipArchive.toBytes(buffer), 0, length, position);
+		return buffer.subarray(0, bytesRead);
+	}
+
+	private static async listFiles(root: string, relativeFolder: string): Promise<string[]>
+	{
+		let files: string[] = [];
+		let entries = await fs.readdir(join(root, relativeFolder), { withFileTypes: true });
+		for (let entry of entries)
+		{
+			let relativePath = relativeFolder == "" ? entry.name : relativeFolder + "/" + entry.name;
+			if (entry.isDirectory()) files.push(...await ZipArchive.listFiles(root, relativePath));
+			else if (entry.isFile()) files.push(relativePath);
+		}
+
+		return files;
+	}
+
+	private static toBytes(buffer: Buffer): Uint8Array
+	{
+		return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+	}
+
+	private static crc32(data: Buffer): number
+	{
+		if (!ZipArchive.crcTable)
+		{
+			ZipArchive.crcTable = new Uint32Array(256);
+			for (let n = 0; n < 256; n++)
+			{
+				let c = n;
+				for (let k = 0; k < 8; k++) c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+				ZipArchive.crcTable[n] = c >>> 0;
+			}
+		}
+
+		let crc = 0xFFFFFFFF;
+		for (let i = 0; i < data.length; i++)
+		{
+			crc = ZipArchive.crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+		}
+
+		return (crc ^ 0xFFFFFFFF) >>> 0;
+	}
+
+	private static toDosTime(date: Date): { time: number, date: number }
+	{
+		// dos dates start in 1980
+		if (date.getFullYear() < 1980) date = new Date(1980, 0, 1);
+
+		return {
+			time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+			date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+		};
+	}
+
+	private static fromDosTime(time: number, date: number): Date
+	{
+		return new Date(((date >> 9) & 0x7F) + 1980, ((date >> 5) & 0x0F) - 1, date & 0x1F, (time >> 11) & 0x1F, (time >> 5) & 0x3F, (time & 0x1F) * 2);
+	}
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { DownloadQueue } from "scripts/utils/download-queue";
+import { Downloadable } from "scripts/utils/downloadable";
+import { ZipArchive } from "scripts/utils/zip-archive";
+import { Path } from "scripts/utils/path";
+import { ExportLog } from "scripts/html-generation/render-log";
+
+jest.mock("scripts/settings/settings", () => ({}));
+jest.mock("scripts/html-generation/render-log", () => ({ ExportLog: { progress: jest.fn(), error: jest.fn() } }));
+
+/**
+ * A file which is written once the test finishes its write.
+ */
+class PendingFile extends Downloadable
+{
+	public started: boolean = false;
+	public finish: () => void = () => undefined;
+	public fail: (error: Error) => void = () => undefined;
+
+	constructor(filename: string)
+	{
+		super(filename, "", Path.emptyPath);
+	}
+
+	download(): Promise<void>
+	{
+		this.started = true;
+		return new Promise((resolve, reject) =>
+		{
+			this.finish = resolve;
+			this.fail = reject;
+		});
+	}
+}
+
+// let the queue handle finished writes
+let settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("DownloadQueue", () =>
+{
+	beforeEach(() => jest.clearAllMocks());
+
+	test("writes at most the given number of files at once", async () =>
+	{
+		let queue = new DownloadQueue(Path.emptyPath, 2);
+		let files = [new PendingFile("a.html"), new PendingFile("b.html"), new PendingFile("c.html")];
+
+		await queue.add(files[0]);
+		await queue.add(files[1]);
+		let added = queue.add(files[2]);
+		await settle();
+		expect(files.map((file) => file.started)).toEqual([true, true, false]);
+
+		files[1].finish();
+		await added;
+		expect(files[2].started).toBe(true);
+	});
+
+	test("reports written files in the order they finish", async () =>
+	{
+		let queue = new DownloadQueue(Path.emptyPath, 3);
+		let files = [new PendingFile("a.html"), new PendingFile("b.html"), new PendingFile("c.html")];
+		let written: string[] = [];
+
+		for (let file of files) await queue.add(file, (file) => written.push(file.filename));
+
+		files[2].finish();
+		files[0].finish();
+		await settle();
+		expect(written).toEqual(["c.html", "a.html"]);
+
+		files[1].finish();
+		await queue.flush();
+		expect(written).toEqual(["c.html", "a.html", "b.html"]);
+		expect(queue.writtenCount).toBe(3);
+	});
+
+	test("flush waits for every started write", async () =>
+	{
+		let queue = new DownloadQueue(Path.emptyPath, 2);
+		let file = new PendingFile("a.html");
+		await queue.add(file);
+
+		let flushed = false;
+		let flush = queue.flush().then(() => flushed = true);
+		await settle();
+		expect(flushed).toBe(false);
+
+		file.finish();
+		await flush;
+		expect(flushed).toBe(true);
+	});
+
+	test("logs failed writes and keeps writing", async () =>
+	{
+		let queue = new DownloadQueue(Path.emptyPath, 1);
+		let files = [new PendingFile("a.html"), new PendingFile("b.html")];
+		let written: string[] = [];
+
+		await queue.add(files[0], (file) => written.push(file.filename));
+		let added = queue.add(files[1], (file) => written.push(file.filename));
+
+		files[0].fail(new Error("disk full"));
+		await added;
+		files[1].finish();
+		await queue.flush();
+
+		expect(written).toEqual(["a.html", "b.html"]);
+		expect(ExportLog.error).toHaveBeenCalledTimes(1);
+	});
+
+	test("writes files into the destination", async () =>
+	{
+		let destination = await ZipArchive.createStagingFolder();
+		try
+		{
+			let queue = new DownloadQueue(destination, 2);
+			await queue.add(new Downloadable("index.html", "<h1>Home</h1>", Path.emptyPath));
+			await queue.add(new Downloadable("page.html", "<h1>Page</h1>", new Path("notes/")));
+			await queue.flush();
+
+			expect(await fs.readFile(join(destination.asString, "index.html"), "utf8")).toBe("<h1>Home</h1>");
+			expect(await fs.readFile(join(destination.asString, "notes/page.html"), "utf8")).toBe("<h1>Page</h1>");
+		}
+		finally
+		{
+			await fs.rm(destination.asString, { recursive: true, force: true });
+		}
+	});
+});
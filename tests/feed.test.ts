@@ -0,0 +1,139 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Feed, FeedFormat, FeedItem } from "scripts/objects/feed";
+import { Website } from "scripts/objects/website";
+import { MarkdownWebpageRendererAPIOptions } from "scripts/api-options";
+
+jest.mock("scripts/settings/settings", () => ({}));
+jest.mock("scripts/html-generation/render-log", () => ({ ExportLog: { progress: jest.fn(), error: jest.fn() } }));
+jest.mock("scripts/html-generation/asset-handler", () =>
+{
+	const { Path } = jest.requireActual("scripts/utils/path");
+	return { AssetHandler: { libraryPath: new Path("lib"), favicon: { relativePath: new Path("lib/media/favicon.png") } } };
+});
+
+let exportedPaths: {[path: string]: string} =
+{
+	"Notes/Old.md": "notes/old.html",
+	"Notes/Removed.md": "notes/removed.html",
+};
+
+let website =
+{
+	exportOptions: { siteURL: "https://example.com/", siteName: "Garden & Notes", authorName: "Alex" },
+	index:
+	{
+		exportTime: Date.UTC(2024, 4, 17),
+		getMetadataForPath: (path: string) => exportedPaths[path] ? { exportedPath: exportedPaths[path] } : undefined,
+	},
+} as unknown as Website;
+
+function createItem(name: string, title: string = name): FeedItem
+{
+	return {
+		id: `Notes/${name}.md`,
+		title: title,
+		url: `https://example.com/notes/${name.toLowerCase()}.html`,
+		description: `<p>About ${title}</p>`,
+		author: undefined,
+		date: new Date(Date.UTC(2024, 4, 1)),
+		tags: [{ name: "#garden", url: "https://example.com/tags/garden.html" }],
+		imageURL: undefined,
+	};
+}
+
+function createFeed(items: FeedItem[]): Feed
+{
+	let feed = new Feed(website);
+	feed.items = items;
+	return feed;
+}
+
+function parseXML(xml: string): Document
+{
+	return new DOMParser().parseFromString(xml, "text/xml");
+}
+
+describe("Feed", () =>
+{
+	test("gets the enabled formats and their paths", () =>
+	{
+		let formats = Feed.getEnabledFormats({ addRSS: true, addAtomFeed: false, addJSONFeed: true } as MarkdownWebpageRendererAPIOptions);
+		expect(formats).toEqual([FeedFormat.RSS, FeedFormat.JSON]);
+
+		let feed = createFeed([]);
+		expect(feed.getPath(FeedFormat.RSS)).toBe("lib/rss.xml");
+		expect(feed.getURL(FeedFormat.Atom)).toBe("https://example.com/lib/atom.xml");
+	});
+
+	test("serializes rss", () =>
+	{
+		let doc = parseXML(createFeed([createItem("First"), createItem("Second", "Cats & <Dogs>")]).serialize(FeedFormat.RSS));
+
+		expect(doc.querySelector("parsererror")).toBeNull();
+		expect(doc.querySelector("channel > title")?.textContent).toBe("Garden & Notes");
+		expect(Array.from(doc.querySelectorAll("item > guid")).map((guid) => guid.textContent)).toEqual(["Notes/First.md", "Notes/Second.md"]);
+		expect(doc.querySelectorAll("item > title")[1].textContent).toBe("Cats & <Dogs>");
+		expect(doc.querySelector("item > category")?.textContent).toBe("garden");
+	});
+
+	test("serializes atom with escaped text", () =>
+	{
+		let doc = parseXML(createFeed([createItem("Second", "Cats & <Dogs>")]).serialize(FeedFormat.Atom));
+
+		expect(doc.querySelector("parsererror")).toBeNull();
+		expect(doc.querySelector("feed > title")?.textContent).toBe("Garden & Notes");
+		expect(doc.querySelector("feed > author > name")?.textContent).toBe("Alex");
+		expect(doc.querySelector("entry > title")?.textContent).toBe("Cats & <Dogs>");
+		expect(doc.querySelector("entry > id")?.textContent).toBe("https://example.com/notes/second.html");
+		expect(doc.querySelector("entry > content")?.textContent).toContain("<p>About Cats & <Dogs></p>");
+		expect(doc.querySelector("entry > category")?.getAttribute("term")).toBe("garden");
+	});
+
+	test("serializes json feeds", () =>
+	{
+		let feed = JSON.parse(createFeed([createItem("First")]).serialize(FeedFormat.JSON));
+
+		expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+		expect(feed.feed_url).toBe("https://example.com/lib/feed.json");
+		expect(feed.items).toHaveLength(1);
+		expect(feed.items[0].id).toBe("https://example.com/notes/first.html");
+		expect(feed.items[0].tags).toEqual(["garden"]);
+	});
+
+	test("keeps the items of the old rss feed which are not exported again or removed", () =>
+	{
+		let oldFeed = createFeed([createItem("First", "Old Title"), createItem("Old"), createItem("Removed")]).serialize(FeedFormat.RSS);
+		let doc = parseXML(createFeed([createItem("First", "New Title")]).serialize(FeedFormat.RSS, oldFeed, ["Notes/Removed.md"]));
+
+		expect(doc.querySelector("parsererror")).toBeNull();
+		expect(Array.from(doc.querySelectorAll("item > guid")).map((guid) => guid.textContent)).toEqual(["Notes/First.md", "Notes/Old.md"]);
+		expect(doc.querySelector("item > title")?.textContent).toBe("New Title");
+	});
+
+	test("keeps the items of the old atom feed which are not exported again or removed", () =>
+	{
+		let oldFeed = createFeed([createItem("First", "Old Title"), createItem("Old"), createItem("Removed")]).serialize(FeedFormat.Atom);
+		let doc = parseXML(createFeed([createItem("First", "New Title")]).serialize(FeedFormat.Atom, oldFeed, ["Notes/Removed.md"]));
+
+		expect(doc.querySelector("parsererror")).toBeNull();
+		expect(Array.from(doc.querySelectorAll("entry > id")).map((id) => id.textContent)).toEqual(["https://example.com/notes/first.html", "https://example.com/notes/old.html"]);
+		expect(doc.querySelector("entry > title")?.textContent).toBe("New Title");
+	});
+
+	test("keeps the items of the old json feed which are not exported again or removed", () =>
+	{
+		let oldFeed = createFeed([createItem("First", "Old Title"), createItem("Old"), createItem("Removed")]).serialize(FeedFormat.JSON);
+		let feed = JSON.parse(createFeed([createItem("First", "New Title")]).serialize(FeedFormat.JSON, oldFeed, ["Notes/Removed.md"]));
+
+		expect(feed.items.map((item: {id: string}) => item.id)).toEqual(["https://example.com/notes/first.html", "https://example.com/notes/old.html"]);
+		expect(feed.items[0].title).toBe("New Title");
+	});
+
+	test("replaces an unreadable old json feed", () =>
+	{
+		let feed = JSON.parse(createFeed([createItem("First")]).serialize(FeedFormat.JSON, "{ not json"));
+		expect(feed.items).toHaveLength(1);
+	});
+});
@@ -0,0 +1,2 @@
+// the plugin uses the electron modules of the app, which only exist inside Obsidian
+export const remote = {};
@@ -0,0 +1,18 @@
+// obsidian only ships type declarations, its classes are provided by the app at runtime
+
+export class FileSystemAdapter
+{
+	private basePath: string;
+
+	constructor(basePath: string)
+	{
+		this.basePath = basePath;
+	}
+
+	getBasePath(): string
+	{
+		return this.basePath;
+	}
+}
+
+export class Notice {}
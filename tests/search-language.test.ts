@@ -0,0 +1,69 @@
+import { SearchLanguage } from "scripts/utils/search-language";
+
+describe("SearchLanguage", () =>
+{
+	test("folds accents and special letters", () =>
+	{
+		expect(SearchLanguage.fold("übersicht")).toBe("ubersicht");
+		expect(SearchLanguage.fold("café")).toBe("cafe");
+		expect(SearchLanguage.fold("straße")).toBe("strasse");
+		expect(SearchLanguage.fold("œuvre")).toBe("oeuvre");
+	});
+
+	test("gets the language of a language code", () =>
+	{
+		expect(SearchLanguage.getLanguage("de")).toBe("de");
+		expect(SearchLanguage.getLanguage(" de-AT ")).toBe("de");
+		expect(SearchLanguage.getLanguage("fr_CA")).toBe("fr");
+		expect(SearchLanguage.getLanguage("none")).toBe("none");
+		expect(SearchLanguage.getLanguage("ja")).toBeUndefined();
+		expect(SearchLanguage.getLanguage(42)).toBeUndefined();
+		expect(SearchLanguage.getLanguage(undefined)).toBeUndefined();
+	});
+
+	test("stems english terms", () =>
+	{
+		expect(SearchLanguage.processTerm("Running", "en")).toBe("run");
+		expect(SearchLanguage.processTerm("caresses", "en")).toBe("caress");
+		expect(SearchLanguage.processTerm("ponies", "en")).toBe("poni");
+		expect(SearchLanguage.processTerm("relational", "en")).toBe("relat");
+		expect(SearchLanguage.processTerm("hopeful", "en")).toBe("hope");
+		expect(SearchLanguage.processTerm("yelling", "en")).toBe("yell");
+	});
+
+	test("stems german terms", () =>
+	{
+		expect(SearchLanguage.processTerm("Übersichten", "de")).toBe("ubersicht");
+		expect(SearchLanguage.processTerm("Kindern", "de")).toBe("kind");
+		expect(SearchLanguage.processTerm("Hauses", "de")).toBe("haus");
+	});
+
+	test("stems french terms", () =>
+	{
+		expect(SearchLanguage.processTerm("chevaux", "fr")).toBe("cheval");
+		expect(SearchLanguage.processTerm("rapidement", "fr")).toBe("rapid");
+		expect(SearchLanguage.processTerm("grandes", "fr")).toBe("grand");
+	});
+
+	test("drops stop words", () =>
+	{
+		expect(SearchLanguage.processTerm("The", "en")).toBeNull();
+		expect(SearchLanguage.processTerm("und", "de")).toBeNull();
+		expect(SearchLanguage.processTerm("für", "de")).toBeNull();
+		expect(SearchLanguage.processTerm("the", "de")).toBe("the");
+	});
+
+	test("only lowercases and folds terms without a supported language", () =>
+	{
+		expect(SearchLanguage.processTerm("Running", "none")).toBe("running");
+		expect(SearchLanguage.processTerm("Café", "ja")).toBe("cafe");
+	});
+
+	test("processes query terms for every language", () =>
+	{
+		expect(SearchLanguage.processQueryTerm("Übersichten", ["de", "en"])).toEqual(["ubersicht", "ubersichten"]);
+		expect(SearchLanguage.processQueryTerm("running", [])).toEqual(["running"]);
+		expect(SearchLanguage.processQueryTerm("the", ["en"])).toBeNull();
+		expect(SearchLanguage.processQueryTerm("die", ["de", "en"])).toEqual(["die"]);
+	});
+});
@@ -0,0 +1,9 @@
+import { tmpdir } from "os";
+import { FileSystemAdapter } from "./mocks/obsidian";
+
+// the global app of Obsidian, with a vault in the temporary folder for resolving relative paths
+Object.assign(globalThis, { app: { vault: { adapter: new FileSystemAdapter(tmpdir()), configDir: ".obsidian" } } });
+
+// helpers which Obsidian adds to the built-in prototypes
+String.prototype.contains = function (this: string, target: string) { return this.includes(target); };
+Array.prototype.contains = function <T>(this: T[], target: T) { return this.includes(target); };
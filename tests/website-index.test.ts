@@ -0,0 +1,81 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { WebsiteIndex } from "scripts/objects/website-index";
+import { Website } from "scripts/objects/website";
+import { Downloadable } from "scripts/utils/downloadable";
+import { ZipArchive } from "scripts/utils/zip-archive";
+import { Path } from "scripts/utils/path";
+
+jest.mock("scripts/main", () => ({}));
+jest.mock("scripts/settings/settings", () => ({}));
+jest.mock("scripts/api-options", () => ({ MarkdownWebpageRendererAPIOptions: class {} }));
+jest.mock("scripts/render-api", () => ({ MarkdownRendererAPI: { checkCancelled: () => false } }));
+jest.mock("scripts/html-generation/render-log", () => ({ ExportLog: { progress: jest.fn(), log: jest.fn(), warning: jest.fn(), error: jest.fn() } }));
+jest.mock("scripts/html-generation/asset-handler", () => ({}));
+jest.mock("scripts/html-generation/assets/asset", () => ({}));
+jest.mock("scripts/objects/website", () => ({}));
+jest.mock("scripts/objects/feed", () => ({}));
+jest.mock("scripts/objects/content-document", () => ({}));
+
+describe("WebsiteIndex.deleteOldFiles", () =>
+{
+	let destination: Path;
+
+	beforeEach(async () =>
+	{
+		destination = await ZipArchive.createStagingFolder();
+	});
+
+	afterEach(async () =>
+	{
+		await fs.rm(destination.asString, { recursive: true, force: true });
+	});
+
+	async function writeFile(relativePath: string)
+	{
+		await fs.mkdir(join(destination.asString, relativePath, ".."), { recursive: true });
+		await fs.writeFile(join(destination.asString, relativePath), relativePath);
+	}
+
+	async function exists(relativePath: string): Promise<boolean>
+	{
+		return fs.stat(join(destination.asString, relativePath)).then(() => true, () => false);
+	}
+
+	function createIndex(removedFiles: {[path: string]: string}, writtenFiles: Downloadable[]): WebsiteIndex
+	{
+		let website = { destination: destination, webpages: writtenFiles, dependencies: [], downloads: [] } as unknown as Website;
+		let index = new WebsiteIndex(website);
+
+		let fileInfo = Object.fromEntries(Object.entries(removedFiles).map(([path, exportedPath]) => [path, { exportedPath: exportedPath }]));
+		index.previousMetadata = { files: Object.keys(removedFiles), fileInfo: fileInfo } as unknown as WebsiteIndex["previousMetadata"];
+		index.removedFiles = Object.keys(removedFiles);
+		return index;
+	}
+
+	test("deletes the files of removed notes and the folders left empty", async () =>
+	{
+		await writeFile("notes/old-note.html");
+		await writeFile("index.html");
+
+		await createIndex({ "Notes/Old Note.md": "notes/old-note.html" }, []).deleteOldFiles({ webStylePaths: true });
+
+		expect(await exists("notes/old-note.html")).toBe(false);
+		expect(await exists("notes")).toBe(false);
+		expect(await exists("index.html")).toBe(true);
+	});
+
+	test("keeps files which were written at the same path by this export", async () =>
+	{
+		// a renamed note and a folder note replacing the generated folder page
+		await writeFile("notes/my-note.html");
+		await writeFile("folder/index.html");
+		let written = [new Downloadable("my-note.html", "", new Path("notes/")), new Downloadable("index.html", "", new Path("folder/"))];
+
+		let index = createIndex({ "Notes/My Note.md": "notes/My-Note.html", "Folder/index": "folder/index.html" }, written);
+		await index.deleteOldFiles({ webStylePaths: true });
+
+		expect(await exists("notes/my-note.html")).toBe(true);
+		expect(await exists("folder/index.html")).toBe(true);
+	});
+});
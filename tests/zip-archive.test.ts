@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { ZipArchive } from "scripts/utils/zip-archive";
+import { Path } from "scripts/utils/path";
+import { ExportLog } from "scripts/html-generation/render-log";
+
+jest.mock("scripts/settings/settings", () => ({}));
+jest.mock("scripts/html-generation/render-log", () => ({ ExportLog: { progress: jest.fn(), error: jest.fn() } }));
+
+describe("ZipArchive", () =>
+{
+	let folder: Path;
+
+	beforeEach(async () =>
+	{
+		folder = await ZipArchive.createStagingFolder();
+		jest.clearAllMocks();
+	});
+
+	afterEach(async () =>
+	{
+		await fs.rm(folder.asString, { recursive: true, force: true });
+	});
+
+	test("gets the archive path next to the destination", () =>
+	{
+		expect(ZipArchive.getArchivePath(new Path("/export/site/")).asString).toBe("/export/site.zip");
+		expect(ZipArchive.getArchivePath(new Path("/export/book"), "epub").asString).toBe("/export/book.epub");
+	});
+
+	test("unpacks the files it wrote", async () =>
+	{
+		let archivePath = new Path(join(folder.asString, "site.zip"));
+		let modifiedTime = new Date(2024, 4, 17, 12, 30, 10).getTime();
+		let binary = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+
+		await ZipArchive.write(archivePath, [
+			{ path: "index.html", content: "<h1>Hello</h1>".repeat(100), modifiedTime: modifiedTime },
+			{ path: "notes/Übersicht.html", content: "Grüße", modifiedTime: modifiedTime },
+			{ path: "lib/media/image.png", content: binary, modifiedTime: modifiedTime, store: true },
+		]);
+
+		let output = new Path(join(folder.asString, "output") + "/");
+		expect(await ZipArchive.unpack(archivePath, output)).toBe(true);
+
+		expect(await fs.readFile(join(output.asString, "index.html"), "utf8")).toBe("<h1>Hello</h1>".repeat(100));
+		expect(await fs.readFile(join(output.asString, "notes/Übersicht.html"), "utf8")).toBe("Grüße");
+		expect(await fs.readFile(join(output.asString, "lib/media/image.png"))).toEqual(binary);
+		expect((await fs.stat(join(output.asString, "index.html"))).mtime.getTime()).toBe(modifiedTime);
+		expect(ExportLog.error).not.toHaveBeenCalled();
+	});
+
+	test("packs a folder with its nested files", async () =>
+	{
+		let source = join(folder.asString, "source");
+		await fs.mkdir(join(source, "a/b"), { recursive: true });
+		await fs.writeFile(join(source, "top.txt"), "top");
+		await fs.writeFile(join(source, "a/b/deep.txt"), "deep");
+
+		let archivePath = new Path(join(folder.asString, "packed.zip"));
+		await ZipArchive.pack(new Path(source + "/"), archivePath);
+
+		let output = new Path(join(folder.asString, "output") + "/");
+		expect(await ZipArchive.unpack(archivePath, output)).toBe(true);
+		expect(await fs.readFile(join(output.asString, "top.txt"), "utf8")).toBe("top");
+		expect(await fs.readFile(join(output.asString, "a/b/deep.txt"), "utf8")).toBe("deep");
+	});
+
+	test("keeps entries inside the folder", async () =>
+	{
+		let archivePath = new Path(join(folder.asString, "escape.zip"));
+		await ZipArchive.write(archivePath, [{ path: "../../escaped.txt", content: "outside" }]);
+
+		let output = new Path(join(folder.asString, "output") + "/");
+		expect(await ZipArchive.unpack(archivePath, output)).toBe(true);
+		expect(await fs.readFile(join(output.asString, "escaped.txt"), "utf8")).toBe("outside");
+	});
+
+	test("keeps the old archive if writing fails", async () =>
+	{
+		let archivePath = new Path(join(folder.asString, "site.zip"));
+		await ZipArchive.write(archivePath, [{ path: "old.txt", content: "old" }]);
+
+		await expect(ZipArchive.write(archivePath, [{ path: "missing.txt" }])).rejects.toThrow("Zip entry has no content");
+		await expect(fs.stat(archivePath.asString + ".tmp")).rejects.toThrow();
+
+		let output = new Path(join(folder.asString, "output") + "/");
+		expect(await ZipArchive.unpack(archivePath, output)).toBe(true);
+		expect(await fs.readFile(join(output.asString, "old.txt"), "utf8")).toBe("old");
+	});
+
+	test("refuses to write more files than a zip without Zip64 holds", async () =>
+	{
+		let entries = Array.from({ length: 0xFFFF }, (_, i) => ({ path: `${i}.txt`, content: "" }));
+		await expect(ZipArchive.write(new Path(join(folder.asString, "large.zip")), entries)).rejects.toThrow("Cannot zip more than 65534 files");
+	});
+
+	test("fails to unpack files which are not zip archives", async () =>
+	{
+		let archivePath = join(folder.asString, "broken.zip");
+		await fs.writeFile(archivePath, "not a zip archive");
+
+		expect(await ZipArchive.unpack(new Path(archivePath), new Path(join(folder.asString, "output") + "/"))).toBe(false);
+		expect(ExportLog.error).toHaveBeenCalled();
+	});
+});